@@ -1,7 +1,187 @@
-import React from "react";
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import React from 'react';
 
-const Profile = () => {
-  return <div>Profile</div>;
+import { auth } from '@/auth';
+import ProfileAnswerCard from '@/components/cards/ProfileAnswerCard';
+import QuestionCard from '@/components/cards/QuestionCards';
+import DataRenderer from '@/components/DataRenderer';
+import Pagination from '@/components/Pagination';
+import AIQuotaLimit from '@/components/profile/AIQuotaLimit';
+import ProfileLink from '@/components/profile/ProfileLink';
+import Stats from '@/components/profile/Stats';
+import { Button } from '@/components/ui/button';
+import UserAvatar from '@/components/UserAvatar';
+import ROUTES from '@/constants/routes';
+import { EMPTY_ANSWERS, EMPTY_QUESTION } from '@/constants/states';
+import { getUser, getUserAnswers, getUserQuestions } from '@/lib/actions/user.action';
+
+const PROFILE_TABS = [
+  { name: 'Top Questions', value: 'top-questions' },
+  { name: 'Answers', value: 'answers' },
+];
+
+interface ProfileTabsProps {
+  userId: string;
+  activeTab: string;
+}
+
+interface TabContentProps {
+  userId: string;
+  page: string;
+  pageSize: number;
+}
+
+/**
+ * Profile Page
+ *
+ * Shows the user's details and stats, followed by their best voted questions
+ * or answers. The active tab is kept in the `tab` search param so it works
+ * together with pagination.
+ */
+const Profile = async ({ params, searchParams }: RouteParams) => {
+  const { id } = await params;
+  const { page, pageSize, tab } = await searchParams;
+
+  const { success, data } = await getUser({ userId: id });
+  if (!success || !data) return notFound();
+
+  const { user, stats } = data;
+  const session = await auth();
+  const activeTab = tab === 'answers' ? 'answers' : 'top-questions';
+  const tabProps = { userId: id, page, pageSize: Number(pageSize) || 10 };
+
+  return (
+    <>
+      <ProfileHeader user={user} isOwnProfile={session?.user?.id === user._id} />
+
+      <Stats {...stats} reputation={user.reputation ?? 0} />
+
+      <section className="mt-10">
+        <ProfileTabs userId={id} activeTab={activeTab} />
+        {activeTab === 'answers' ? <AnswersTab {...tabProps} /> : <QuestionsTab {...tabProps} />}
+      </section>
+    </>
+  );
+};
+
+/**
+ * Avatar, name, username and the optional profile details
+ * Users looking at their own profile get a link to edit it, and admins can
+ * change the user's daily AI answer limit.
+ */
+const ProfileHeader = ({ user, isOwnProfile }: { user: User; isOwnProfile: boolean }) => {
+  const { _id, name, username, image, bio, location, portfolio, createdAt } = user;
+  const joinedAt = new Date(createdAt).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  return (
+    <section className="flex flex-col-reverse items-start justify-between sm:flex-row">
+      <div className="flex flex-col items-start gap-4 lg:flex-row">
+        <UserAvatar
+          id={_id}
+          name={name}
+          imageUrl={image}
+          className="size-[140px] rounded-full object-cover"
+          fallbackClassName="text-6xl"
+          linkDisabled
+        />
+
+        <div className="mt-3">
+          <h2 className="h2-bold text-dark100_light900">{name}</h2>
+          <p className="paragraph-regular text-dark200_light800">@{username}</p>
+
+          <div className="mt-5 flex flex-wrap items-center justify-start gap-5">
+            {portfolio && <ProfileLink imgUrl="/icons/link.svg" href={portfolio} title="Portfolio" />}
+            {location && <ProfileLink imgUrl="/icons/location.svg" title={location} />}
+            <ProfileLink imgUrl="/icons/calendar.svg" title={`Joined ${joinedAt}`} />
+          </div>
+
+          {bio && <p className="paragraph-regular text-dark400_light800 mt-8">{bio}</p>}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3 max-sm:mb-5 max-sm:w-full sm:mt-3">
+        <AIQuotaLimit userId={_id} name={name} />
+        {isOwnProfile && (
+          <Button
+            className="paragraph-medium btn-secondary text-dark300_light900 min-h-[46px] min-w-44 px-4 py-3"
+            asChild
+          >
+            <Link href={ROUTES.EDIT_PROFILE}>Edit Profile</Link>
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+/**
+ * Tab links between the user's questions and answers
+ * Switching tabs starts again from the first page.
+ */
+const ProfileTabs = ({ userId, activeTab }: ProfileTabsProps) => (
+  <nav className="background-light800_dark400 flex w-fit rounded-md p-1">
+    {PROFILE_TABS.map(({ name, value }) => (
+      <Link
+        key={value}
+        href={`${ROUTES.PROFILE(userId)}?tab=${value}`}
+        data-state={activeTab === value ? 'active' : 'inactive'}
+        className="tab body-medium rounded-md px-6 py-3"
+      >
+        {name}
+      </Link>
+    ))}
+  </nav>
+);
+
+const QuestionsTab = async ({ userId, page, pageSize }: TabContentProps) => {
+  const { success, data, error } = await getUserQuestions({ userId, page: Number(page) || 1, pageSize });
+  const { questions, isNext } = data || {};
+
+  return (
+    <>
+      <DataRenderer
+        success={success}
+        error={error}
+        data={questions}
+        empty={EMPTY_QUESTION}
+        render={questions => (
+          <div className="mt-5 flex w-full flex-col gap-6">
+            {questions.map(question => (
+              <QuestionCard key={question._id} question={question} />
+            ))}
+          </div>
+        )}
+      />
+
+      <Pagination page={page} isNext={isNext || false} />
+    </>
+  );
+};
+
+const AnswersTab = async ({ userId, page, pageSize }: TabContentProps) => {
+  const { success, data, error } = await getUserAnswers({ userId, page: Number(page) || 1, pageSize });
+  const { answers, isNext } = data || {};
+
+  return (
+    <>
+      <DataRenderer
+        success={success}
+        error={error}
+        data={answers}
+        empty={EMPTY_ANSWERS}
+        render={answers => (
+          <div className="mt-5 flex w-full flex-col gap-6">
+            {answers.map(answer => (
+              <ProfileAnswerCard key={answer._id} answer={answer} />
+            ))}
+          </div>
+        )}
+      />
+
+      <Pagination page={page} isNext={isNext || false} />
+    </>
+  );
 };
 
 export default Profile;
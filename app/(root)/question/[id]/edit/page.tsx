@@ -5,6 +5,7 @@ import { auth } from '@/auth';
 import QuestionForm from '@/components/forms/QuestionForm';
 import ROUTES from '@/constants/routes';
 import { getQuestion } from '@/lib/actions/getQuestion.action';
+import { getPrivileges } from '@/lib/actions/privilege.action';
 
 const EditQuestion = async ({ params }: RouteParams) => {
   const { id } = await params;
@@ -20,7 +21,11 @@ const EditQuestion = async ({ params }: RouteParams) => {
   const { author } = question!;
   const { user } = session!;
 
-  if (author?._id !== user?.id) redirect(ROUTES.QUESTION(id));
+  // Besides the author, users with the editOthersPosts privilege may edit
+  if (author?._id !== user?.id) {
+    const { data: privileges } = await getPrivileges();
+    if (!privileges?.editOthersPosts) redirect(ROUTES.QUESTION(id));
+  }
 
   return (
     <main>
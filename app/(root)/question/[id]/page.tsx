@@ -16,10 +16,15 @@
  * │  2. User Interaction:                                                       │
  * │     - Voting system (upvote/downvote)                                       │
  * │     - Question saving functionality                                         │
+ * │     - Edit and delete controls for the author                               │
+ * │     - Close and reopen controls for moderators                              │
+ * │     - Link to the question's revision history                               │
+ * │     - Comment threads on the question and its answers                       │
  * │     - Answer submission form                                                │
  * │                                                                             │
  * │  3. Content Management:                                                     │
  * │     - Displays all answers with pagination                                  │
+ * │     - Pins the accepted answer to the top                                   │
  * │     - Shows question metrics (views, answers)                               │
  * │     - Handles loading states with Suspense                                  │
  * │                                                                             │
@@ -33,9 +38,12 @@ import { cache, Suspense } from 'react';
 
 import AllAnswers from '@/components/answers/AllAnswers';
 import TagCard from '@/components/cards/TagCards';
+import Comments from '@/components/comments/Comments';
 import { Preview } from '@/components/editor/preview';
 import AnswerForm from '@/components/forms/AnswerForm';
 import Metric from '@/components/Metric';
+import CloseQuestion from '@/components/questions/CloseQuestion';
+import QuestionActions from '@/components/questions/QuestionActions';
 import SaveQuestion from '@/components/questions/SaveQuestion';
 import UserAvatar from '@/components/UserAvatar';
 import Votes from '@/components/votes/Votes';
@@ -43,6 +51,7 @@ import ROUTES from '@/constants/routes';
 import { hasSavedQuestion } from '@/lib/actions/collection.action';
 import { getAnswers } from '@/lib/actions/getAnswer.action';
 import { getQuestion } from '@/lib/actions/getQuestion.action';
+import { getPrivileges } from '@/lib/actions/privilege.action';
 import { hasVoted } from '@/lib/actions/vote.action';
 import { formatNumber, getTimeStamp } from '@/lib/utils';
 
@@ -52,10 +61,12 @@ interface QuestionHeaderProps {
   upvotes: number;
   downvotes: number;
   questionId: string;
+  isClosed: boolean;
   hasVotedPromise: Promise<ActionResponse<HasVotedResponse>>;
 }
 
 interface QuestionMetricsProps {
+  questionId: string;
   createdAt: Date;
   answers: number;
   views: number;
@@ -75,6 +86,8 @@ interface AnswersResult {
 
 interface ShowAnswersProps {
   page: string;
+  questionAuthorId: string;
+  acceptedAnswerId?: string | null;
   result: AnswersResult | null;
   isLoaded: boolean;
   isError: ErrorResponse['error'] | undefined;
@@ -142,7 +155,8 @@ const QuestionDetails = async ({ params, searchParams }: RouteParams) => {
   }));
 
   // Destructure question data for easier access
-  const { author, createdAt, answers, views, tags, content, title, upvotes, downvotes, _id } = question;
+  const { author, createdAt, answers, views, tags, content, title, upvotes, downvotes, acceptedAnswer, _id } = question;
+  const { closedAt, closeReason } = question;
 
   return (
     <>
@@ -153,11 +167,15 @@ const QuestionDetails = async ({ params, searchParams }: RouteParams) => {
         questionId={_id}
         upvotes={upvotes}
         downvotes={downvotes}
+        isClosed={!!closedAt}
         hasVotedPromise={hasVotedPromise}
       />
 
       {/* Question Metrics (time, answers, views) */}
-      <QuestionMetrics createdAt={createdAt} answers={answers} views={views} />
+      <QuestionMetrics questionId={_id} createdAt={createdAt} answers={answers} views={views} />
+
+      {/* Closed Notice */}
+      {closedAt && <ClosedNotice closedAt={closedAt} reason={closeReason} />}
 
       {/* Question Content Preview */}
       <Preview content={content} />
@@ -165,16 +183,21 @@ const QuestionDetails = async ({ params, searchParams }: RouteParams) => {
       {/* Question Tags */}
       <QuestionTags tags={tags} />
 
+      {/* Question Comments */}
+      <Comments targetId={_id} targetType="question" />
+
       {/* Answers Section */}
       <ShowAnswers
         page={page}
+        questionAuthorId={author._id}
+        acceptedAnswerId={acceptedAnswer}
         result={answersResult || null}
         isLoaded={areAnswersLoaded}
         isError={answersError || undefined}
       />
 
-      {/* Answer Form Section */}
-      <AnswerFormSection questionId={_id} questionTitle={title} questionContent={content} />
+      {/* Answer Form Section (closed questions no longer accept answers) */}
+      {!closedAt && <AnswerFormSection questionId={_id} questionTitle={title} questionContent={content} />}
     </>
   );
 };
@@ -185,12 +208,23 @@ const QuestionDetails = async ({ params, searchParams }: RouteParams) => {
  * Displays the question's author information, title, and interaction buttons
  * (voting and saving)
  */
-const QuestionHeader = ({ author, title, upvotes, downvotes, questionId, hasVotedPromise }: QuestionHeaderProps) => {
+const QuestionHeader = ({
+  author,
+  title,
+  upvotes,
+  downvotes,
+  questionId,
+  isClosed,
+  hasVotedPromise,
+}: QuestionHeaderProps) => {
   // Get initial saved state for the question
   const hasSavedQuestionPromise = hasSavedQuestion({
     questionId,
   });
 
+  // Get the privileges that decide which vote and edit controls are enabled
+  const privilegesPromise = getPrivileges();
+
   return (
     <div className="flex-start w-full flex-col">
       <div className="flex w-full flex-col-reverse justify-between">
@@ -218,6 +252,7 @@ const QuestionHeader = ({ author, title, upvotes, downvotes, questionId, hasVote
               targetId={questionId}
               downvotes={downvotes}
               hasVotedPromise={hasVotedPromise}
+              privilegesPromise={privilegesPromise}
             />
           </Suspense>
 
@@ -225,6 +260,14 @@ const QuestionHeader = ({ author, title, upvotes, downvotes, questionId, hasVote
           <Suspense fallback={<div>Loading...</div>}>
             <SaveQuestion questionId={questionId} initialSavedState={hasSavedQuestionPromise} />
           </Suspense>
+
+          {/* Close / Reopen Controls (moderators only) */}
+          <CloseQuestion questionId={questionId} isClosed={isClosed} />
+
+          {/* Edit / Delete Controls (author, moderators and privileged editors) */}
+          <Suspense fallback={null}>
+            <QuestionActions questionId={questionId} authorId={author._id} privilegesPromise={privilegesPromise} />
+          </Suspense>
         </div>
       </div>
       <h2 className="h2-semibold text-dark200_light900 mt-3.5 w-full">{title}</h2>
@@ -239,8 +282,9 @@ const QuestionHeader = ({ author, title, upvotes, downvotes, questionId, hasVote
  * - When it was asked
  * - Number of answers
  * - Number of views
+ * - Link to the revision history
  */
-const QuestionMetrics = ({ createdAt, answers, views }: QuestionMetricsProps) => (
+const QuestionMetrics = ({ questionId, createdAt, answers, views }: QuestionMetricsProps) => (
   <div className="mb-8 mt-5 flex flex-wrap gap-4">
     <Metric
       imgUrl="/icons/clock.svg"
@@ -263,6 +307,22 @@ const QuestionMetrics = ({ createdAt, answers, views }: QuestionMetricsProps) =>
       title=""
       textStyles="small-regular text-dark400_light700"
     />
+    <Link href={ROUTES.QUESTION_REVISIONS(questionId)} className="small-regular text-primary-500">
+      History
+    </Link>
+  </div>
+);
+
+/**
+ * Closed Notice Component
+ *
+ * Explains why a question was closed and no longer accepts answers
+ */
+const ClosedNotice = ({ closedAt, reason }: { closedAt: Date; reason?: string }) => (
+  <div className="background-light800_dark300 light-border mb-8 rounded-md border px-5 py-4">
+    <p className="paragraph-semibold text-dark200_light900">Closed {getTimeStamp(closedAt)}</p>
+    {reason && <p className="paragraph-regular text-dark400_light700 mt-1">{reason}</p>}
+    <p className="small-regular text-dark400_light700 mt-2">This question is not accepting new answers.</p>
   </div>
 );
 
@@ -284,10 +344,19 @@ const QuestionTags = ({ tags }: { tags: Tag[] }) => (
  *
  * Displays all answers to the question with loading and error states
  */
-const ShowAnswers: React.FC<ShowAnswersProps> = ({ result, isLoaded, isError, page }) => (
+const ShowAnswers: React.FC<ShowAnswersProps> = ({
+  result,
+  isLoaded,
+  isError,
+  page,
+  questionAuthorId,
+  acceptedAnswerId,
+}) => (
   <section className="my-5">
     <AllAnswers
       page={Number(page) || 1}
+      questionAuthorId={questionAuthorId}
+      acceptedAnswerId={acceptedAnswerId}
       isNext={result?.isNext || false}
       data={result?.answers}
       success={isLoaded}
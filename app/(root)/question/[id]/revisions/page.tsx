@@ -0,0 +1,132 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import React from 'react';
+
+import RevisionDiff from '@/components/revisions/RevisionDiff';
+import RollbackRevision from '@/components/revisions/RollbackRevision';
+import UserAvatar from '@/components/UserAvatar';
+import ROUTES from '@/constants/routes';
+import { getQuestion } from '@/lib/actions/getQuestion.action';
+import { getQuestionRevisions } from '@/lib/actions/revision.action';
+import { cn, getTimeStamp } from '@/lib/utils';
+
+interface RevisionItemProps {
+  item: Revision;
+  questionId: string;
+  questionAuthorId: string;
+  isLatest: boolean;
+  isSelected: boolean;
+  compareHref: string;
+}
+
+/**
+ * Revision history of a question
+ *
+ * Lists every revision and shows the diff between two of them, selected with
+ * the `from` and `to` search params (revision numbers). By default the latest
+ * revision is compared with the one before it.
+ */
+const QuestionRevisions = async ({ params, searchParams }: RouteParams) => {
+  const { id } = await params;
+  const { from, to } = await searchParams;
+
+  const { success, data: question } = await getQuestion({ questionId: id });
+  if (!success || !question) return notFound();
+
+  const { data: revisions = [] } = await getQuestionRevisions({ questionId: id });
+
+  const latest = revisions[0]?.revision ?? 0;
+  const toRevision = findRevision(revisions, Number(to) || latest);
+  const fromRevision = findRevision(revisions, Number(from) || (toRevision?.revision ?? latest) - 1) ?? toRevision;
+
+  return (
+    <>
+      <section className="flex w-full flex-col gap-2">
+        <h1 className="h1-bold text-dark100_light900">Revision history</h1>
+        <Link href={ROUTES.QUESTION(id)} className="paragraph-medium text-primary-500">
+          {question.title}
+        </Link>
+      </section>
+
+      {fromRevision && toRevision ? (
+        <section className="mt-10">
+          <h2 className="h3-semibold text-dark200_light900 mb-6">
+            Comparing revision {fromRevision.revision} with revision {toRevision.revision}
+          </h2>
+          <RevisionDiff from={fromRevision} to={toRevision} />
+        </section>
+      ) : (
+        <p className="paragraph-regular text-dark400_light700 mt-10">This question has not been edited yet.</p>
+      )}
+
+      <section className="mt-10 flex flex-col gap-4">
+        <h2 className="h3-semibold text-dark200_light900">All revisions</h2>
+        {revisions.map(item => (
+          <RevisionItem
+            key={item._id}
+            item={item}
+            questionId={id}
+            questionAuthorId={question.author._id}
+            isLatest={item.revision === latest}
+            isSelected={item.revision === fromRevision?.revision || item.revision === toRevision?.revision}
+            compareHref={`${ROUTES.QUESTION_REVISIONS(id)}?from=${item.revision}&to=${latest}`}
+          />
+        ))}
+      </section>
+    </>
+  );
+};
+
+/**
+ * A single revision with its author, edit summary and actions
+ */
+const RevisionItem = ({ item, questionId, questionAuthorId, isLatest, isSelected, compareHref }: RevisionItemProps) => (
+  <div
+    className={cn(
+      'card-wrapper light-border flex flex-wrap items-center justify-between gap-4 rounded-[10px] border px-6 py-4',
+      isSelected && 'border-primary-500'
+    )}
+  >
+    <div className="flex flex-col gap-1">
+      <p className="paragraph-semibold text-dark200_light900">
+        Revision {item.revision}
+        {isLatest && <span className="small-regular text-light400_light500 ml-2">(current)</span>}
+      </p>
+      <div className="flex items-center gap-2">
+        <UserAvatar
+          id={item.author._id}
+          name={item.author.name}
+          imageUrl={item.author.image}
+          className="size-5"
+          fallbackClassName="text-[8px]"
+        />
+        <p className="small-regular text-dark400_light700">
+          {item.author.name} edited {getTimeStamp(item.createdAt)}
+        </p>
+      </div>
+      {item.summary && <p className="body-regular text-dark400_light700">{item.summary}</p>}
+    </div>
+
+    <div className="flex items-center gap-3">
+      {!isLatest && (
+        <>
+          <Link href={compareHref} className="small-medium text-primary-500">
+            Compare with current
+          </Link>
+          <RollbackRevision
+            questionId={questionId}
+            revisionId={item._id}
+            revision={item.revision}
+            authorId={questionAuthorId}
+          />
+        </>
+      )}
+    </div>
+  </div>
+);
+
+function findRevision(revisions: Revision[], revision: number) {
+  return revisions.find(item => item.revision === revision);
+}
+
+export default QuestionRevisions;
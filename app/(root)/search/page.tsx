@@ -0,0 +1,93 @@
+import Link from 'next/link';
+import qs from 'query-string';
+
+import SearchResultCard from '@/components/cards/SearchResultCard';
+import DataRenderer from '@/components/DataRenderer';
+import CommonFilter from '@/components/filters/CommonFilter';
+import Pagination from '@/components/Pagination';
+import LocalSearch from '@/components/search/LocalSearch';
+import { GlobalSearchFilters } from '@/constants/filters';
+import ROUTES from '@/constants/routes';
+import { SEARCHABLE_TYPE_LABELS, SEARCHABLE_TYPES, SearchableType } from '@/constants/search';
+import { EMPTY_SEARCH_RESULTS } from '@/constants/states';
+import { globalSearch } from '@/lib/actions/globalSearch.action';
+
+// Hits shown per type before the user narrows the search to one type
+const GROUPED_RESULTS_LIMIT = 5;
+
+const isSearchableType = (value?: string): value is SearchableType =>
+  SEARCHABLE_TYPES.includes(value as SearchableType);
+
+const Search = async ({ searchParams }: RouteParams) => {
+  const { page, pageSize, query = '', filter } = await searchParams;
+  const type = isSearchableType(filter) ? filter : undefined;
+
+  const { success, data, error } = query.trim()
+    ? await globalSearch({
+        query,
+        type,
+        page: Number(page) || 1,
+        pageSize: type ? Number(pageSize) || 10 : GROUPED_RESULTS_LIMIT,
+      })
+    : { success: true, data: { results: [], isNext: false }, error: undefined };
+
+  const { results = [], isNext } = data || {};
+
+  return (
+    <>
+      <h1 className="h1-bold text-dark100_light900">Search Results</h1>
+
+      <div className="mt-11 flex justify-between gap-5 max-sm:flex-col sm:items-center">
+        <LocalSearch
+          route={ROUTES.SEARCH}
+          imgSrc="/icons/search.svg"
+          placeholder="Search questions, answers, users and tags..."
+          otherClasses="flex-1"
+        />
+
+        <CommonFilter filters={GlobalSearchFilters} otherClasses="min-h-[56px] sm:min-w-[170px]" />
+      </div>
+
+      <DataRenderer
+        success={success}
+        error={error}
+        data={results}
+        empty={EMPTY_SEARCH_RESULTS}
+        render={results =>
+          type ? (
+            <div className="mt-10 flex w-full flex-col gap-6">
+              {results.map(hit => (
+                <SearchResultCard key={`${hit.type}-${hit.id}`} {...hit} />
+              ))}
+            </div>
+          ) : (
+            <div className="mt-10 flex w-full flex-col gap-10">
+              {SEARCHABLE_TYPES.filter(searchType => results.some(hit => hit.type === searchType)).map(searchType => (
+                <section key={searchType} className="flex flex-col gap-6">
+                  <div className="flex-between">
+                    <h2 className="h3-bold text-dark200_light900">{SEARCHABLE_TYPE_LABELS[searchType]}</h2>
+                    <Link
+                      href={qs.stringifyUrl({ url: ROUTES.SEARCH, query: { query, filter: searchType } })}
+                      className="body-medium text-primary-500"
+                    >
+                      See all
+                    </Link>
+                  </div>
+                  {results
+                    .filter(hit => hit.type === searchType)
+                    .map(hit => (
+                      <SearchResultCard key={`${hit.type}-${hit.id}`} {...hit} />
+                    ))}
+                </section>
+              ))}
+            </div>
+          )
+        }
+      />
+
+      {type && <Pagination page={page} isNext={isNext || false} />}
+    </>
+  );
+};
+
+export default Search;
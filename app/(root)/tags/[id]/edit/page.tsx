@@ -0,0 +1,31 @@
+import { notFound, redirect } from 'next/navigation';
+import React from 'react';
+
+import { auth } from '@/auth';
+import TagWikiForm from '@/components/forms/TagWikiForm';
+import ROUTES from '@/constants/routes';
+import { getPrivileges } from '@/lib/actions/privilege.action';
+import { getTag } from '@/lib/actions/tag.action';
+
+const EditTagWiki = async ({ params }: RouteParams) => {
+  const { id } = await params;
+
+  const session = await auth();
+  if (!session?.user?.id) return redirect(ROUTES.SIGN_IN);
+
+  const { data: tag, success } = await getTag({ tagId: id });
+  if (!success || !tag) return notFound();
+
+  const { data: privileges } = await getPrivileges();
+  if (!privileges?.editTagWikis) return redirect(ROUTES.TAG(id));
+
+  return (
+    <>
+      <h1 className="h1-bold text-dark100_light900">Edit {tag.name} wiki</h1>
+
+      <TagWikiForm tag={tag} />
+    </>
+  );
+};
+
+export default EditTagWiki;
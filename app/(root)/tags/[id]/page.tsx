@@ -1,3 +1,4 @@
+import { redirect } from 'next/navigation';
 import React from 'react';
 
 import QuestionCard from '@/components/cards/QuestionCards';
@@ -5,10 +6,21 @@ import DataRenderer from '@/components/DataRenderer';
 import CommonFilter from '@/components/filters/CommonFilter';
 import Pagination from '@/components/Pagination';
 import LocalSearch from '@/components/search/LocalSearch';
+import MergeTag from '@/components/tags/MergeTag';
+import RelatedTags from '@/components/tags/RelatedTags';
+import RenameTag from '@/components/tags/RenameTag';
+import TagPreferenceToggle from '@/components/tags/TagPreferenceToggle';
+import TagSynonyms from '@/components/tags/TagSynonyms';
+import TagWiki from '@/components/tags/TagWiki';
 import { CollectionFilters } from '@/constants/filters';
 import ROUTES from '@/constants/routes';
 import { EMPTY_QUESTION } from '@/constants/states';
+import { getPrivileges } from '@/lib/actions/privilege.action';
+import { getRelatedTags } from '@/lib/actions/relatedTags.action';
+import { getTagPreferences } from '@/lib/actions/tagPreference.action';
 import { getTagQuestions } from '@/lib/actions/tagQuestion.action';
+import { getMergedTagTarget, getTagSynonyms } from '@/lib/actions/tagSynonym.action';
+import { getTagPreference } from '@/lib/utils';
 
 const TagQuestionDetails = async ({ params, searchParams }: RouteParams) => {
   const { id } = await params;
@@ -21,14 +33,38 @@ const TagQuestionDetails = async ({ params, searchParams }: RouteParams) => {
     query,
   });
 
+  // Tags merged into another one keep redirecting to it
+  if (!success) {
+    const { data: mergedInto } = await getMergedTagTarget({ tagId: id });
+    if (mergedInto) redirect(ROUTES.TAG(mergedInto.tagId));
+  }
+
   const { tag, questions, isNext } = data || {};
+  const [{ data: privileges }, { data: synonyms }, { data: preferences }, { data: relatedTags }] = await Promise.all([
+    getPrivileges(),
+    getTagSynonyms({ tagId: id }),
+    getTagPreferences(),
+    getRelatedTags({ tagId: id }),
+  ]);
+  const preference = getTagPreference(preferences, id);
 
   return (
     <>
       <section className="flex w-full flex-col-reverse justify-between gap-4 sm:flex-row sm:items-center">
         <h1 className="h1-bold text-dark100_light900">{tag?.name}</h1>
+        {tag && (
+          <div className="flex items-center gap-3">
+            <TagPreferenceToggle tagId={id} preference={preference} />
+            <RenameTag tagId={id} name={tag.name} />
+            <MergeTag tagId={id} name={tag.name} />
+          </div>
+        )}
       </section>
 
+      {tag && <TagWiki tag={tag} canEdit={!!privileges?.editTagWikis} />}
+      {tag && <TagSynonyms tagId={id} synonyms={synonyms || []} />}
+      {tag && <RelatedTags name={tag.name} tags={relatedTags || []} />}
+
       <section className="mt-11 flex justify-between gap-5 max-sm:flex-col sm:items-center">
         <LocalSearch
           route={ROUTES.TAG(id)}
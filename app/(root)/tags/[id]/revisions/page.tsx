@@ -0,0 +1,119 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import React from 'react';
+
+import TagRevisionDiff from '@/components/revisions/TagRevisionDiff';
+import UserAvatar from '@/components/UserAvatar';
+import ROUTES from '@/constants/routes';
+import { getTag } from '@/lib/actions/tag.action';
+import { getTagRevisions } from '@/lib/actions/tagWiki.action';
+import { cn, getTimeStamp } from '@/lib/utils';
+
+interface TagRevisionItemProps {
+  item: TagRevision;
+  isLatest: boolean;
+  isSelected: boolean;
+  compareHref: string;
+}
+
+/**
+ * Revision history of a tag wiki
+ *
+ * Lists every revision and shows the diff between two of them, selected with
+ * the `from` and `to` search params (revision numbers). By default the latest
+ * revision is compared with the one before it.
+ */
+const TagRevisions = async ({ params, searchParams }: RouteParams) => {
+  const { id } = await params;
+  const { from, to } = await searchParams;
+
+  const { success, data: tag } = await getTag({ tagId: id });
+  if (!success || !tag) return notFound();
+
+  const { data: revisions = [] } = await getTagRevisions({ tagId: id });
+
+  const latest = revisions[0]?.revision ?? 0;
+  const toRevision = findRevision(revisions, Number(to) || latest);
+  const fromRevision = findRevision(revisions, Number(from) || (toRevision?.revision ?? latest) - 1) ?? toRevision;
+
+  return (
+    <>
+      <section className="flex w-full flex-col gap-2">
+        <h1 className="h1-bold text-dark100_light900">Wiki history</h1>
+        <Link href={ROUTES.TAG(id)} className="paragraph-medium text-primary-500">
+          {tag.name}
+        </Link>
+      </section>
+
+      {fromRevision && toRevision && fromRevision !== toRevision ? (
+        <section className="mt-10">
+          <h2 className="h3-semibold text-dark200_light900 mb-6">
+            Comparing revision {fromRevision.revision} with revision {toRevision.revision}
+          </h2>
+          <TagRevisionDiff from={fromRevision} to={toRevision} />
+        </section>
+      ) : (
+        <p className="paragraph-regular text-dark400_light700 mt-10">
+          {revisions.length === 0 ? 'This tag has no wiki yet.' : 'The wiki has not been edited since it was written.'}
+        </p>
+      )}
+
+      <section className="mt-10 flex flex-col gap-4">
+        <h2 className="h3-semibold text-dark200_light900">All revisions</h2>
+        {revisions.map(item => (
+          <TagRevisionItem
+            key={item._id}
+            item={item}
+            isLatest={item.revision === latest}
+            isSelected={item.revision === fromRevision?.revision || item.revision === toRevision?.revision}
+            compareHref={`${ROUTES.TAG_REVISIONS(id)}?from=${item.revision}&to=${latest}`}
+          />
+        ))}
+      </section>
+    </>
+  );
+};
+
+/**
+ * A single wiki revision with its author and edit summary
+ */
+const TagRevisionItem = ({ item, isLatest, isSelected, compareHref }: TagRevisionItemProps) => (
+  <div
+    className={cn(
+      'card-wrapper light-border flex flex-wrap items-center justify-between gap-4 rounded-[10px] border px-6 py-4',
+      isSelected && 'border-primary-500'
+    )}
+  >
+    <div className="flex flex-col gap-1">
+      <p className="paragraph-semibold text-dark200_light900">
+        Revision {item.revision}
+        {isLatest && <span className="small-regular text-light400_light500 ml-2">(current)</span>}
+      </p>
+      <div className="flex items-center gap-2">
+        <UserAvatar
+          id={item.author._id}
+          name={item.author.name}
+          imageUrl={item.author.image}
+          className="size-5"
+          fallbackClassName="text-[8px]"
+        />
+        <p className="small-regular text-dark400_light700">
+          {item.author.name} edited {getTimeStamp(item.createdAt)}
+        </p>
+      </div>
+      {item.summary && <p className="body-regular text-dark400_light700">{item.summary}</p>}
+    </div>
+
+    {!isLatest && (
+      <Link href={compareHref} className="small-medium text-primary-500">
+        Compare with current
+      </Link>
+    )}
+  </div>
+);
+
+function findRevision(revisions: TagRevision[], revision: number) {
+  return revisions.find(item => item.revision === revision);
+}
+
+export default TagRevisions;
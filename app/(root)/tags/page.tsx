@@ -1,22 +1,30 @@
+import { auth } from '@/auth';
 import TagCard from '@/components/cards/TagCards';
 import DataRenderer from '@/components/DataRenderer';
 import CommonFilter from '@/components/filters/CommonFilter';
 import Pagination from '@/components/Pagination';
 import LocalSearch from '@/components/search/LocalSearch';
+import TagPreferencesPanel from '@/components/tags/TagPreferencesPanel';
 import { TagFilters } from '@/constants/filters';
 import ROUTES from '@/constants/routes';
 import { EMPTY_TAGS } from '@/constants/states';
 import { getTags } from '@/lib/actions/tag.action';
+import { getTagPreferences } from '@/lib/actions/tagPreference.action';
+import { getTagPreference } from '@/lib/utils';
 
 const Tags = async ({ searchParams }: RouteParams) => {
   const { page, pageSize, query, filter } = await searchParams;
 
-  const { success, data, error } = await getTags({
-    page: Number(page) || 1,
-    pageSize: Number(pageSize) || 10,
-    query,
-    filter,
-  });
+  const [{ success, data, error }, { data: preferences }, session] = await Promise.all([
+    getTags({
+      page: Number(page) || 1,
+      pageSize: Number(pageSize) || 10,
+      query,
+      filter,
+    }),
+    getTagPreferences(),
+    auth(),
+  ]);
 
   const { tags, isNext } = data || {};
 
@@ -24,6 +32,8 @@ const Tags = async ({ searchParams }: RouteParams) => {
     <>
       <h1 className="h1-bold text-dark100_light900 text-3xl">Tags</h1>
 
+      {session?.user?.id && preferences && <TagPreferencesPanel preferences={preferences} />}
+
       <div className="mt-11 flex justify-between gap-5 max-sm:flex-col sm:items-center">
         <LocalSearch
           route={ROUTES.TAGS}
@@ -43,7 +53,15 @@ const Tags = async ({ searchParams }: RouteParams) => {
         render={(tags: Tag[]) => (
           <div className="mt-10 flex w-full flex-wrap gap-4">
             {tags.map(tag => (
-              <TagCard key={tag._id} _id={tag._id} name={tag.name} questions={tag.questions} showCount />
+              <TagCard
+                key={tag._id}
+                _id={tag._id}
+                name={tag.name}
+                questions={tag.questions}
+                excerpt={tag.excerpt}
+                preference={getTagPreference(preferences, tag._id)}
+                showCount
+              />
             ))}
           </div>
         )}
@@ -1,32 +1,39 @@
+import bcrypt from 'bcryptjs';
 import { NextResponse } from 'next/server';
 
 import Account from '@/database/account.model';
 import handleError from '@/lib/handlers/error';
+import { assertOwnership, authorizeRoute, RouteCaller } from '@/lib/handlers/route';
 import { NotFoundError, ValidationError } from '@/lib/http-errors';
 import dbConnect from '@/lib/mongoose';
+import { serializeAccount } from '@/lib/serializers';
 import { AccountSchema } from '@/lib/validations';
 
+const SALT_ROUNDS = 12;
+
 // GET api/accounts/[id]
-export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
   if (!id) throw new NotFoundError('Account');
 
   try {
-    const account = await getAccountById(id);
-    return NextResponse.json({ success: true, data: account }, { status: 200 });
+    const caller = await authorizeRoute(request);
+    const account = await getAccountById(id, caller);
+    return NextResponse.json({ success: true, data: serializeAccount(account) }, { status: 200 });
   } catch (error) {
     return handleError(error, 'api') as APIErrorResponse;
   }
 }
 
 // DELETE api/accounts/[id]
-export async function DELETE(_: Request, { params }: { params: Promise<{ id: string }> }) {
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
   if (!id) throw new NotFoundError('Account');
 
   try {
-    const account = await deleteAccountById(id);
-    return NextResponse.json({ success: true, data: account }, { status: 200 });
+    const caller = await authorizeRoute(request);
+    const account = await deleteAccountById(id, caller);
+    return NextResponse.json({ success: true, data: serializeAccount(account) }, { status: 200 });
   } catch (error) {
     return handleError(error, 'api') as APIErrorResponse;
   }
@@ -38,34 +45,48 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
   if (!id) throw new NotFoundError('Account');
 
   try {
+    const caller = await authorizeRoute(request);
     const body = await request.json();
-    const updatedAccount = await updateAccount(id, body);
-    return NextResponse.json({ success: true, data: updatedAccount }, { status: 200 });
+    const updatedAccount = await updateAccount(id, body, caller);
+    return NextResponse.json({ success: true, data: serializeAccount(updatedAccount) }, { status: 200 });
   } catch (error) {
     return handleError(error, 'api') as APIErrorResponse;
   }
 }
 
-async function getAccountById(id: string) {
+async function getAccountById(id: string, caller: RouteCaller) {
   await dbConnect();
   const account = await Account.findById(id);
   if (!account) throw new NotFoundError('Account');
+  assertOwnership(caller, account.userId, 'Account');
   return account;
 }
 
-async function deleteAccountById(id: string) {
-  await dbConnect();
+async function deleteAccountById(id: string, caller: RouteCaller) {
+  await getAccountById(id, caller);
   const account = await Account.findByIdAndDelete(id);
   if (!account) throw new NotFoundError('Account');
   return account;
 }
 
-async function updateAccount(id: string, body: unknown) {
-  await dbConnect();
-  const validateData = AccountSchema.partial().safeParse(body);
-  if (!validateData.success) throw new ValidationError(validateData.error.flatten().fieldErrors);
+async function updateAccount(id: string, body: unknown, caller: RouteCaller) {
+  await getAccountById(id, caller);
+
+  // Only the profile and password can change: accounts never move to another user or
+  // provider login, and passwords are only stored hashed
+  const validateData = AccountSchema.pick({ name: true, image: true, password: true })
+    .partial()
+    .strict()
+    .safeParse(body);
+  if (!validateData.success) {
+    const { formErrors, fieldErrors } = validateData.error.flatten();
+    throw new ValidationError(formErrors.length > 0 ? { ...fieldErrors, account: formErrors } : fieldErrors);
+  }
+
+  const { password, ...data } = validateData.data;
+  const update = password ? { ...data, password: await bcrypt.hash(password, SALT_ROUNDS) } : data;
 
-  const updatedAccount = await Account.findByIdAndUpdate(id, validateData, { new: true });
+  const updatedAccount = await Account.findByIdAndUpdate(id, update, { new: true });
   if (!updatedAccount) throw new NotFoundError('Account');
   return updatedAccount;
 }
@@ -2,14 +2,18 @@ import { NextResponse } from 'next/server';
 
 import Account from '@/database/account.model';
 import handleError from '@/lib/handlers/error';
+import { authorizeRoute } from '@/lib/handlers/route';
 import { NotFoundError, ValidationError } from '@/lib/http-errors';
 import dbConnect from '@/lib/mongoose';
+import { serializeAccount } from '@/lib/serializers';
 import { AccountSchema } from '@/lib/validations';
 
 export async function POST(request: Request) {
-  const { providerAccountId } = await request.json();
-
   try {
+    await authorizeRoute(request, { serviceOnly: true });
+
+    const { providerAccountId } = await request.json();
+
     await dbConnect();
 
     const validatedData = AccountSchema.partial().safeParse({
@@ -24,7 +28,7 @@ export async function POST(request: Request) {
     return NextResponse.json(
       {
         success: true,
-        data: account,
+        data: serializeAccount(account),
       },
       { status: 200 }
     );
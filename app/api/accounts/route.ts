@@ -2,16 +2,20 @@ import { NextResponse } from 'next/server';
 
 import Account from '@/database/account.model';
 import handleError from '@/lib/handlers/error';
+import { authorizeRoute } from '@/lib/handlers/route';
 import { ForbiddenError } from '@/lib/http-errors';
 import dbConnect from '@/lib/mongoose';
+import { serializeAccount } from '@/lib/serializers';
 import { AccountSchema } from '@/lib/validations';
 
 // GET api/accounts
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    await authorizeRoute(request, { serviceOnly: true });
+
     await dbConnect();
     const accounts = await getAllAccounts();
-    return NextResponse.json({ success: true, data: accounts }, { status: 200 });
+    return NextResponse.json({ success: true, data: accounts.map(serializeAccount) }, { status: 200 });
   } catch (error) {
     return handleError(error, 'api') as APIErrorResponse;
   }
@@ -20,6 +24,8 @@ export async function GET() {
 // POST api/accounts
 export async function POST(request: Request) {
   try {
+    await authorizeRoute(request, { serviceOnly: true });
+
     await dbConnect();
     const body = await request.json();
     const validatedData = AccountSchema.parse(body);
@@ -30,7 +36,7 @@ export async function POST(request: Request) {
 
     // Create new account
     const newAccount = await createAccount(validatedData);
-    return NextResponse.json({ success: true, data: newAccount }, { status: 201 });
+    return NextResponse.json({ success: true, data: serializeAccount(newAccount) }, { status: 201 });
   } catch (error) {
     return handleError(error, 'api') as APIErrorResponse;
   }
@@ -0,0 +1,33 @@
+import bcrypt from 'bcryptjs';
+import { NextResponse } from 'next/server';
+
+import Account from '@/database/account.model';
+import handleError from '@/lib/handlers/error';
+import { authorizeRoute } from '@/lib/handlers/route';
+import { UnauthorizedError, ValidationError } from '@/lib/http-errors';
+import dbConnect from '@/lib/mongoose';
+import { serializeAccount } from '@/lib/serializers';
+import { SignInSchema } from '@/lib/validations';
+
+// POST api/accounts/verify
+// Checks email and password for credential sign-in, so the password hash never leaves the server
+export async function POST(request: Request) {
+  try {
+    await authorizeRoute(request, { serviceOnly: true });
+
+    const validatedData = SignInSchema.safeParse(await request.json());
+    if (!validatedData.success) throw new ValidationError(validatedData.error.flatten().fieldErrors);
+
+    const { email, password } = validatedData.data;
+
+    await dbConnect();
+    const account = await Account.findOne({ provider: 'credentials', providerAccountId: email });
+
+    const isValid = account?.password && (await bcrypt.compare(password, account.password));
+    if (!isValid) throw new UnauthorizedError('Invalid email or password');
+
+    return NextResponse.json({ success: true, data: serializeAccount(account) }, { status: 200 });
+  } catch (error) {
+    return handleError(error, 'api') as APIErrorResponse;
+  }
+}
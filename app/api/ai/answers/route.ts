@@ -1,30 +1,22 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
 
+import { generateAnswer } from '@/lib/ai';
+import { AIAnswerRequest } from '@/lib/ai-usage';
 import handleError from '@/lib/handlers/error';
+import { authorizeRoute } from '@/lib/handlers/route';
 import { ValidationError } from '@/lib/http-errors';
 import { AIAnswerSchema } from '@/lib/validations';
 
-interface AIRequestData {
-  question: string;
-  content: string;
-  userAnswer?: string;
-}
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('Missing OpenAI API Key');
-}
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
+// Only called by the generateAIAnswer action, which applies the user's quota and the answer cache
 export async function POST(req: Request): Promise<NextResponse> {
   try {
-    const requestData: AIRequestData = await req.json();
-    const validatedData = validateRequest(requestData);
+    await authorizeRoute(req, { serviceOnly: true });
+
+    const requestData: AIAnswerRequest = await req.json();
+    const { question, content, userAnswer } = validateRequest(requestData);
 
-    const generatedText = await generateAIResponse(validatedData);
+    // The provider comes from AI_PROVIDER; without any AI settings, an offline stub answers
+    const generatedText = await generateAnswer({ question, content, userAnswer });
 
     return NextResponse.json({ success: true, data: generatedText }, { status: 200 });
   } catch (error) {
@@ -32,7 +24,7 @@ export async function POST(req: Request): Promise<NextResponse> {
   }
 }
 
-function validateRequest(data: AIRequestData): AIRequestData {
+function validateRequest(data: AIAnswerRequest): AIAnswerRequest {
   const validationResult = AIAnswerSchema.safeParse(data);
 
   if (!validationResult.success) {
@@ -41,29 +33,3 @@ function validateRequest(data: AIRequestData): AIRequestData {
 
   return validationResult.data;
 }
-
-async function generateAIResponse({ question, content, userAnswer }: AIRequestData): Promise<string> {
-  try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a helpful assistant that provides informative responses in markdown format. Use appropriate markdown syntax for headings, lists, code blocks, and emphasis where necessary. 
-            For code blocks, use short-form smaller case language identifiers (e.g., 'js' for JavaScript, 'py' for Python, 'ts' for TypeScript, 'html' for HTML, 'css' for CSS, etc.).`,
-        },
-        {
-          role: 'user',
-          content: `Generate a markdown-formatted response to the following question: "${question}".Consider the provided context: **Context:** ${content} Also, 
-            prioritize and incorporate the user's answer when formulating your response: **User's Answer:** ${userAnswer} Prioritize the user's answer only if it's correct. 
-            If it's incomplete or incorrect, improve or correct it while keeping the response concise and to the point. Provide the final answer in markdown format.`,
-        },
-      ],
-    });
-
-    return completion.choices[0]?.message?.content || 'No response generated';
-  } catch (error) {
-    console.error('OpenAI API Error:', error);
-    throw error;
-  }
-}
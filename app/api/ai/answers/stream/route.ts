@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+
+import { streamAnswer } from '@/lib/ai';
+import {
+  AIAnswerRequest,
+  cacheAIAnswer,
+  getAIAnswerCacheKey,
+  getCachedAIAnswer,
+  reserveAIGeneration,
+} from '@/lib/ai-usage';
+import handleError from '@/lib/handlers/error';
+import { authorizeRoute } from '@/lib/handlers/route';
+import { ForbiddenError, RequestError, ValidationError } from '@/lib/http-errors';
+import logger from '@/lib/logger';
+import dbConnect from '@/lib/mongoose';
+import { formatAIAnswer } from '@/lib/utils';
+import { AIAnswerSchema } from '@/lib/validations';
+
+const STREAM_HEADERS = {
+  'Content-Type': 'text/plain; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  // Keeps reverse proxies such as nginx from buffering the whole answer
+  'X-Accel-Buffering': 'no',
+};
+
+// Streams the answer as plain text chunks. Clients fall back to the generateAIAnswer
+// action when this route answers 501, which it does for providers that cannot stream.
+// Cached answers are sent in one chunk and do not count towards the user's quota.
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const caller = await authorizeRoute(req);
+    if (caller.type !== 'user') throw new ForbiddenError('AI answers are streamed to signed-in users only');
+
+    const requestData: AIAnswerRequest = await req.json();
+    const validatedData = validateRequest(requestData);
+    const { questionId, question, content, userAnswer } = validatedData;
+
+    await dbConnect();
+
+    const cacheKey = getAIAnswerCacheKey(validatedData);
+    const cachedAnswer = await getCachedAIAnswer(cacheKey);
+    if (cachedAnswer !== null) {
+      return new Response(cachedAnswer, { status: 200, headers: STREAM_HEADERS });
+    }
+
+    const chunks = streamAnswer({ question, content, userAnswer }, req.signal);
+    if (!chunks) {
+      throw new RequestError(501, 'The configured AI provider does not support streaming');
+    }
+
+    const { release } = await reserveAIGeneration(caller.userId);
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let text = '';
+
+        try {
+          for await (const chunk of chunks) {
+            text += chunk;
+            controller.enqueue(encoder.encode(chunk));
+          }
+          controller.close();
+        } catch (error) {
+          // Cancelled generations still count, failed ones are given back
+          if (!req.signal.aborted) await release();
+
+          // The client sees the stream fail; the provider error is already logged
+          controller.error(error);
+          return;
+        }
+
+        // Providers stop early when the client disconnects, which leaves a partial answer
+        if (req.signal.aborted) return;
+
+        try {
+          await cacheAIAnswer(cacheKey, questionId, formatAIAnswer(text));
+        } catch (error) {
+          logger.error({ err: error }, 'Failed to cache AI answer');
+        }
+      },
+    });
+
+    return new Response(stream, { status: 200, headers: STREAM_HEADERS });
+  } catch (error) {
+    return handleError(error, 'api') as NextResponse;
+  }
+}
+
+function validateRequest(data: AIAnswerRequest): AIAnswerRequest {
+  const validationResult = AIAnswerSchema.safeParse(data);
+
+  if (!validationResult.success) {
+    throw new ValidationError(validationResult.error.flatten().fieldErrors);
+  }
+
+  return validationResult.data;
+}
@@ -5,6 +5,7 @@ import slugify from 'slugify';
 import Account from '@/database/account.model';
 import User, { IUserDoc } from '@/database/user.model';
 import handleError from '@/lib/handlers/error';
+import { authorizeRoute } from '@/lib/handlers/route';
 import { ValidationError } from '@/lib/http-errors';
 import dbConnect from '@/lib/mongoose';
 import { SignInWithOAuthSchema } from '@/lib/validations';
@@ -23,6 +24,12 @@ interface IValidatedData {
 }
 
 export async function POST(request: Request) {
+  try {
+    await authorizeRoute(request, { serviceOnly: true });
+  } catch (error) {
+    return handleError(error, 'api') as APIErrorResponse;
+  }
+
   const { provider, providerAccountId, user } = await request.json();
 
   await dbConnect();
@@ -2,16 +2,20 @@ import { NextResponse } from 'next/server';
 
 import User from '@/database/user.model';
 import handleError from '@/lib/handlers/error';
-import { NotFoundError } from '@/lib/http-errors';
+import { assertOwnership, authorizeRoute } from '@/lib/handlers/route';
+import { NotFoundError, ValidationError } from '@/lib/http-errors';
 import dbConnect from '@/lib/mongoose';
-import { UserSchema } from '@/lib/validations';
+import { escapeRegExp } from '@/lib/utils';
+import { ProfileSchema } from '@/lib/validations';
 
 // GET api/users/[id]
-export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
   if (!id) throw new NotFoundError('User');
 
   try {
+    assertOwnership(await authorizeRoute(request), id, 'User');
+
     const user = await getUserById(id);
     return NextResponse.json({ success: true, data: user }, { status: 200 });
   } catch (error) {
@@ -20,11 +24,13 @@ export async function GET(_: Request, { params }: { params: Promise<{ id: string
 }
 
 // DELETE api/users/[id]
-export async function DELETE(_: Request, { params }: { params: Promise<{ id: string }> }) {
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
   if (!id) throw new NotFoundError('User');
 
   try {
+    assertOwnership(await authorizeRoute(request), id, 'User');
+
     const user = await deleteUserById(id);
     return NextResponse.json({ success: true, data: user }, { status: 200 });
   } catch (error) {
@@ -38,6 +44,8 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
   if (!id) throw new NotFoundError('User');
 
   try {
+    assertOwnership(await authorizeRoute(request), id, 'User');
+
     const body = await request.json();
     const updatedUser = await updateUser(id, body);
     return NextResponse.json({ success: true, data: updatedUser }, { status: 200 });
@@ -60,10 +68,24 @@ async function deleteUserById(id: string) {
   return user;
 }
 
+// Only profile fields can be changed here. Reputation, role, email and AI limits have
+// their own flows, and unknown fields are stripped by the schema.
 async function updateUser(id: string, body: unknown) {
   await dbConnect();
-  const validateData = UserSchema.partial().parse(body); // Partial validation
-  const updatedUser = await User.findByIdAndUpdate(id, validateData, { new: true });
+  const validateData = ProfileSchema.partial().parse(body); // Partial validation
+
+  // Usernames are unique, regardless of letter case
+  if (validateData.username) {
+    const usernameTaken = await User.exists({
+      _id: { $ne: id },
+      username: { $regex: `^${escapeRegExp(validateData.username)}$`, $options: 'i' },
+    });
+    if (usernameTaken) {
+      throw new ValidationError({ username: ['This username is already taken.'] });
+    }
+  }
+
+  const updatedUser = await User.findByIdAndUpdate(id, validateData, { new: true, runValidators: true });
   if (!updatedUser) throw new NotFoundError('User');
   return updatedUser;
 }
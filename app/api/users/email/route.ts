@@ -2,14 +2,17 @@ import { NextResponse } from 'next/server';
 
 import User from '@/database/user.model';
 import handleError from '@/lib/handlers/error';
+import { authorizeRoute } from '@/lib/handlers/route';
 import { NotFoundError, ValidationError } from '@/lib/http-errors';
 import dbConnect from '@/lib/mongoose';
 import { UserSchema } from '@/lib/validations';
 
 export async function POST(request: Request) {
-  const { email } = await request.json();
-
   try {
+    await authorizeRoute(request, { serviceOnly: true });
+
+    const { email } = await request.json();
+
     await dbConnect();
     const validateData = UserSchema.partial().safeParse({ email });
     if (!validateData.success) throw new ValidationError(validateData.error.flatten().fieldErrors);
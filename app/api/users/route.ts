@@ -2,12 +2,15 @@ import { NextResponse } from 'next/server';
 
 import User, { IUser } from '@/database/user.model';
 import handleError from '@/lib/handlers/error';
+import { authorizeRoute } from '@/lib/handlers/route';
 import { ValidationError } from '@/lib/http-errors';
 import dbConnect from '@/lib/mongoose';
 import { UserSchema } from '@/lib/validations';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    await authorizeRoute(request, { serviceOnly: true });
+
     await dbConnect();
     const users = await User.find({});
     return NextResponse.json({ success: true, data: users }, { status: 200 });
@@ -18,6 +21,8 @@ export async function GET() {
 
 export async function POST(request: Request): Promise<NextResponse | APIErrorResponse> {
   try {
+    await authorizeRoute(request, { serviceOnly: true });
+
     await dbConnect();
 
     const body = await request.json();
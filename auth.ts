@@ -1,9 +1,9 @@
-import bcrypt from 'bcryptjs';
 import NextAuth, { Session, Account, Profile, DefaultSession, User } from 'next-auth';
 import Credentials from 'next-auth/providers/credentials';
 import GitHub from 'next-auth/providers/github';
 import Google from 'next-auth/providers/google';
 
+import { Role } from '@/constants/permissions';
 import { IAccount, IAccountDoc } from '@/database/account.model';
 import { api } from '@/lib/api';
 
@@ -32,6 +32,7 @@ interface GoogleProfile extends Profile {
 interface ExtendedSession extends Session {
   user: DefaultSession['user'] & {
     id: string;
+    role: Role;
   };
 }
 
@@ -65,20 +66,21 @@ const createUserInfo = (
 
 /**
  * Looks up existing account information in the database
+ * @returns ID and role of the user the account belongs to
  */
 const handleAccountLookup = async (
   account: Pick<Account, 'type' | 'providerAccountId'>,
   token: { email?: string | null }
-): Promise<string | undefined> => {
+): Promise<{ userId: string; role: Role } | undefined> => {
   const providerId = account.type === 'credentials' ? token.email! : account.providerAccountId;
   const { data: existingAccount, success } = (await api.accounts.getByProvider(providerId)) as ActionResponse<IAccount>;
 
   if (!success || !existingAccount) return undefined;
-  return existingAccount.userId?.toString();
-};
 
-const verifyPassword = async (password: string, hashedPassword: string): Promise<boolean> => {
-  return bcrypt.compare(password, hashedPassword);
+  const userId = existingAccount.userId?.toString();
+  const { data: existingUser } = (await api.users.getById(userId)) as ActionResponse<IUserDoc>;
+
+  return { userId, role: existingUser?.role ?? 'user' };
 };
 
 /**
@@ -92,7 +94,11 @@ const authorizeUser = async (credentials: Partial<Record<string, unknown>>) => {
     }
 
     const { email, password } = validatedFields.data;
-    const { data: existingAccount } = (await api.accounts.getByProvider(email)) as ActionResponse<IAccountDoc>;
+    // The password is checked by the API, which never returns the stored hash
+    const { data: existingAccount } = (await api.accounts.verifyCredentials(
+      email,
+      password
+    )) as ActionResponse<IAccountDoc>;
     if (!existingAccount) return null;
 
     const { data: existingUser } = (await api.users.getById(
@@ -101,8 +107,6 @@ const authorizeUser = async (credentials: Partial<Record<string, unknown>>) => {
 
     if (!existingUser) return null;
 
-    if (!(await verifyPassword(password, existingAccount.password!))) return null;
-
     return {
       id: existingUser.id,
       name: existingUser.name,
@@ -151,7 +155,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
   callbacks: {
     /**
      * Called whenever a session is checked
-     * Adds the user ID to the session information
+     * Adds the user ID and role to the session information
      */
     async session({ session, token }): Promise<ExtendedSession> {
       return {
@@ -159,6 +163,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         user: {
           ...session.user,
           id: token.sub as string,
+          role: (token.role as Role) ?? 'user',
         },
       };
     },
@@ -166,12 +171,17 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
     /**
      * Called whenever a JWT is created or updated
      * Handles linking the token to existing accounts
+     * The role is read once at sign-in and only drives what the UI shows; server
+     * actions check the user's current role in the database (see lib/handlers/action.ts).
      */
     async jwt({ token, account }) {
       if (!account) return token;
 
-      const userId = await handleAccountLookup(account, token);
-      if (userId) token.sub = userId;
+      const linkedUser = await handleAccountLookup(account, token);
+      if (linkedUser) {
+        token.sub = linkedUser.userId;
+        token.role = linkedUser.role;
+      }
 
       return token;
     },
@@ -0,0 +1,71 @@
+'use client';
+
+import Image from 'next/image';
+
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+
+interface ConfirmDeleteDialogProps {
+  title: string;
+  description: string;
+  open: boolean;
+  isPending: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+  triggerLabel?: string;
+}
+
+/**
+ * Trash icon that opens a confirmation dialog before deleting something
+ * The dialog stays open while the delete is pending so errors can be retried
+ */
+const ConfirmDeleteDialog = ({
+  title,
+  description,
+  open,
+  isPending,
+  onOpenChange,
+  onConfirm,
+  triggerLabel = 'Delete',
+}: ConfirmDeleteDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogTrigger asChild>
+      <Image
+        src="/icons/trash.svg"
+        alt="delete"
+        width={14}
+        height={14}
+        className="cursor-pointer object-contain"
+        aria-label={triggerLabel}
+        role="button"
+      />
+    </DialogTrigger>
+    <DialogContent className="background-light800_dark300 border-none">
+      <DialogHeader>
+        <DialogTitle className="text-dark200_light900">{title}</DialogTitle>
+        <DialogDescription className="text-dark400_light700">{description}</DialogDescription>
+      </DialogHeader>
+      <DialogFooter className="gap-2">
+        <DialogClose asChild>
+          <Button type="button" variant="outline" disabled={isPending}>
+            Cancel
+          </Button>
+        </DialogClose>
+        <Button type="button" variant="destructive" disabled={isPending} onClick={onConfirm}>
+          {isPending ? 'Deleting...' : 'Delete'}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ConfirmDeleteDialog;
@@ -0,0 +1,70 @@
+'use client';
+
+import { CircleCheck } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { useTransition } from 'react';
+
+import { toast } from '@/hooks/use-toast';
+import { acceptAnswer, unacceptAnswer } from '@/lib/actions/acceptAnswer.action';
+import { cn } from '@/lib/utils';
+
+interface AcceptAnswerProps {
+  answerId: string;
+  questionAuthorId: string;
+  isAccepted: boolean;
+}
+
+/**
+ * Accepted-answer marker
+ *
+ * The author of the question sees a toggle to accept or unaccept the answer.
+ * Everyone else only sees the marker on the accepted answer.
+ */
+const AcceptAnswer = ({ answerId, questionAuthorId, isAccepted }: AcceptAnswerProps) => {
+  const { data: session } = useSession();
+  const [isPending, startTransition] = useTransition();
+
+  const canAccept = session?.user?.id === questionAuthorId;
+
+  const handleToggle = () => {
+    startTransition(async () => {
+      const result = isAccepted ? await unacceptAnswer({ answerId }) : await acceptAnswer({ answerId });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to update the accepted answer',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: 'Success',
+        description: isAccepted ? 'Answer is no longer accepted' : 'Answer marked as accepted',
+      });
+    });
+  };
+
+  if (!canAccept) {
+    return isAccepted ? (
+      <CircleCheck className="size-5 text-green-500" aria-label="Accepted answer" role="img" />
+    ) : null;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleToggle}
+      disabled={isPending}
+      aria-pressed={isAccepted}
+      aria-label={isAccepted ? 'Unaccept answer' : 'Accept answer'}
+      title={isAccepted ? 'Unaccept this answer' : 'Accept this answer'}
+      className={cn('flex-center', isPending && 'opacity-50')}
+    >
+      <CircleCheck className={cn('size-5', isAccepted ? 'text-green-500' : 'text-light-400 hover:text-green-500')} />
+    </button>
+  );
+};
+
+export default AcceptAnswer;
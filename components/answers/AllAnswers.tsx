@@ -10,9 +10,20 @@ interface Props extends ActionResponse<Answer[]> {
   totalAnswers: number;
   page: number;
   isNext: boolean;
+  questionAuthorId: string;
+  acceptedAnswerId?: string | null;
 }
 
-const AllAnswers = ({ page, isNext, data, success, error, totalAnswers }: Props) => {
+const AllAnswers = ({
+  page,
+  isNext,
+  data,
+  success,
+  error,
+  totalAnswers,
+  questionAuthorId,
+  acceptedAnswerId,
+}: Props) => {
   const renderHeader = () => (
     <div className="flex items-center justify-between">
       <h3 className="primary-text-gradient">
@@ -29,7 +40,16 @@ const AllAnswers = ({ page, isNext, data, success, error, totalAnswers }: Props)
       error={error}
       success={success}
       empty={EMPTY_ANSWERS}
-      render={answers => answers.map(answer => <AnswerCard key={answer._id} {...answer} />)}
+      render={answers =>
+        answers.map(answer => (
+          <AnswerCard
+            key={answer._id}
+            {...answer}
+            questionAuthorId={questionAuthorId}
+            isAccepted={answer._id === acceptedAnswerId}
+          />
+        ))
+      }
     />
   );
 
@@ -0,0 +1,180 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { MDXEditorMethods } from '@mdxeditor/editor';
+import { ReloadIcon } from '@radix-ui/react-icons';
+import dynamic from 'next/dynamic';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { ReactNode, use, useRef, useState, useTransition } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import type { Privilege } from '@/constants/privileges';
+import { toast } from '@/hooks/use-toast';
+import { deleteAnswer } from '@/lib/actions/deleteAnswer.action';
+import { editAnswer } from '@/lib/actions/editAnswer.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+import { AnswerSchema } from '@/lib/validations';
+
+import ConfirmDeleteDialog from '../ConfirmDeleteDialog';
+import { Button } from '../ui/button';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '../ui/form';
+
+// Dynamically import the Editor component
+const Editor = dynamic(() => import('@/components/editor'), {
+  ssr: false,
+});
+
+interface EditableAnswerProps {
+  answerId: string;
+  authorId: string;
+  content: string;
+  privilegesPromise: Promise<ActionResponse<Record<Privilege, boolean>>>;
+  // Server-rendered preview of the answer content
+  children: ReactNode;
+}
+
+type AnswerFormValues = z.infer<typeof AnswerSchema>;
+
+/**
+ * Wraps the rendered answer content and lets its author edit it in place
+ * or delete it. Users with the editOthersPosts privilege can edit it and
+ * moderators can delete it; everyone else just sees the rendered content.
+ */
+const EditableAnswer = ({ answerId, authorId, content, privilegesPromise, children }: EditableAnswerProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isSaving, startSaving] = useTransition();
+  const [isDeleting, startDeleting] = useTransition();
+  const editorRef = useRef<MDXEditorMethods>(null);
+
+  const form = useForm<AnswerFormValues>({
+    resolver: zodResolver(AnswerSchema),
+    defaultValues: { content },
+  });
+
+  const privileges = use(privilegesPromise);
+
+  const isAuthor = session?.user?.id === authorId;
+  const canEdit = isAuthor || !!privileges.data?.editOthersPosts;
+  const canDelete = isAuthor || hasPermission(getSessionRole(session), 'deleteOthersContent');
+
+  const handleCancel = () => {
+    form.reset({ content });
+    setIsEditing(false);
+  };
+
+  const handleSubmit = (values: AnswerFormValues) => {
+    startSaving(async () => {
+      const result = await editAnswer({ answerId, content: values.content });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to update answer',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({ title: 'Success', description: 'The answer has been updated' });
+      setIsEditing(false);
+      router.refresh();
+    });
+  };
+
+  const handleDelete = () => {
+    startDeleting(async () => {
+      const result = await deleteAnswer({ answerId });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to delete answer',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setIsDeleteOpen(false);
+      toast({ title: 'Success', description: 'The answer has been deleted' });
+      router.refresh();
+    });
+  };
+
+  if (!canEdit && !canDelete) return <>{children}</>;
+
+  if (isEditing) {
+    return (
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="flex w-full flex-col gap-6">
+          <FormField
+            control={form.control}
+            name="content"
+            render={({ field }) => (
+              <FormItem className="flex w-full flex-col gap-3">
+                <FormControl>
+                  <Editor editorRef={editorRef} value={field.value} fieldChange={field.onChange} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" disabled={isSaving} onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} className="primary-gradient w-fit !text-light-900">
+              {isSaving ? (
+                <>
+                  <ReloadIcon className="mr-2 size-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Changes'
+              )}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    );
+  }
+
+  return (
+    <>
+      {children}
+      <div className="mt-5 flex items-center justify-end gap-3">
+        {canEdit && (
+          <Image
+            src="/icons/edit.svg"
+            alt="edit"
+            width={14}
+            height={14}
+            className="cursor-pointer object-contain"
+            aria-label="Edit answer"
+            role="button"
+            onClick={() => setIsEditing(true)}
+          />
+        )}
+        {canDelete && (
+          <ConfirmDeleteDialog
+            title="Delete this answer?"
+            description="This permanently removes the answer and the votes cast on it."
+            triggerLabel="Delete answer"
+            open={isDeleteOpen}
+            isPending={isDeleting}
+            onOpenChange={setIsDeleteOpen}
+            onConfirm={handleDelete}
+          />
+        )}
+      </div>
+    </>
+  );
+};
+
+export default EditableAnswer;
@@ -2,15 +2,34 @@ import Link from 'next/link';
 import { Suspense } from 'react';
 
 import ROUTES from '@/constants/routes';
+import { getPrivileges } from '@/lib/actions/privilege.action';
 import { hasVoted } from '@/lib/actions/vote.action';
-import { getTimeStamp } from '@/lib/utils';
+import { cn, getTimeStamp } from '@/lib/utils';
 
+import AcceptAnswer from '../answers/AcceptAnswer';
+import EditableAnswer from '../answers/EditableAnswer';
+import Comments from '../comments/Comments';
 import { Preview } from '../editor/preview';
 import UserAvatar from '../UserAvatar';
 import Votes from '../votes/Votes';
 
-const AnswerCard = ({ _id, author, content, createdAt, upvotes, downvotes }: Answer) => {
+interface AnswerCardProps extends Answer {
+  questionAuthorId: string;
+  isAccepted?: boolean;
+}
+
+const AnswerCard = ({
+  _id,
+  author,
+  content,
+  createdAt,
+  upvotes,
+  downvotes,
+  questionAuthorId,
+  isAccepted = false,
+}: AnswerCardProps) => {
   const hasVotedPromise = hasVoted({ targetId: _id, targetType: 'answer' });
+  const privilegesPromise = getPrivileges();
 
   const renderAuthorInfo = () => (
     <div className="flex flex-1 items-start gap-1 sm:items-center">
@@ -31,25 +50,34 @@ const AnswerCard = ({ _id, author, content, createdAt, upvotes, downvotes }: Ans
   );
 
   const renderVotes = () => (
-    <Suspense fallback={<div>Loading...</div>}>
-      <Votes
-        targetType="answer"
-        targetId={_id}
-        hasVotedPromise={hasVotedPromise}
-        upvotes={upvotes}
-        downvotes={downvotes}
-      />
-    </Suspense>
+    <div className="flex items-center gap-4">
+      <AcceptAnswer answerId={_id} questionAuthorId={questionAuthorId} isAccepted={isAccepted} />
+      <Suspense fallback={<div>Loading...</div>}>
+        <Votes
+          targetType="answer"
+          targetId={_id}
+          hasVotedPromise={hasVotedPromise}
+          privilegesPromise={privilegesPromise}
+          upvotes={upvotes}
+          downvotes={downvotes}
+        />
+      </Suspense>
+    </div>
   );
 
   return (
-    <article className="light-border border-b py-10">
+    <article className={cn('light-border border-b py-10', isAccepted && 'border-l-4 border-l-green-500 pl-5')}>
       <span id={JSON.stringify(_id)} className="hash-span" />
       <div className="mb-5 flex flex-col-reverse justify-between gap-5 sm:flex-row sm:items-center sm:gap-2">
         {renderAuthorInfo()}
         {renderVotes()}
       </div>
-      <Preview content={content} />
+      <Suspense fallback={<Preview content={content} />}>
+        <EditableAnswer answerId={_id} authorId={author._id} content={content} privilegesPromise={privilegesPromise}>
+          <Preview content={content} />
+        </EditableAnswer>
+      </Suspense>
+      <Comments targetId={_id} targetType="answer" />
     </article>
   );
 };
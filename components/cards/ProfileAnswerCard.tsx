@@ -0,0 +1,48 @@
+import Link from 'next/link';
+
+import ROUTES from '@/constants/routes';
+import { getTimeStamp } from '@/lib/utils';
+
+import Metric from '../Metric';
+
+interface ProfileAnswerCardProps {
+  answer: Answer;
+}
+
+/**
+ * Compact answer entry for the profile page
+ * Shows the title of the answered question and links to the answer on its page.
+ */
+const ProfileAnswerCard = ({ answer }: ProfileAnswerCardProps) => {
+  const { _id, question, author, createdAt, upvotes } = answer;
+  if (!question || typeof question === 'string') return null;
+
+  return (
+    <div className="card-wrapper rounded-[10px] px-11 py-9">
+      <Link href={`${ROUTES.QUESTION(question._id)}#${JSON.stringify(_id)}`}>
+        <h3 className="sm:h3-semibold base-semibold text-dark200_light900 line-clamp-1 flex-1">{question.title}</h3>
+      </Link>
+
+      <div className="flex-between mt-6 w-full flex-wrap gap-3">
+        <Metric
+          imgUrl={author.image}
+          alt={author.name}
+          value={author.name}
+          title={`• answered ${getTimeStamp(createdAt)}`}
+          href={ROUTES.PROFILE(author._id)}
+          textStyles="body-medium text-dark400_light700"
+          isAuthor
+        />
+        <Metric
+          imgUrl="/icons/like.svg"
+          alt="like"
+          value={upvotes}
+          title=" Votes"
+          textStyles="small-medium text-dark400_light800"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProfileAnswerCard;
@@ -1,11 +1,13 @@
+import { CircleCheck } from 'lucide-react';
 import Link from 'next/link';
 import React from 'react';
 
 import ROUTES from '@/constants/routes';
-import { getTimeStamp } from '@/lib/utils';
+import { cn, getTimeStamp } from '@/lib/utils';
 
 import TagCard from './TagCards';
 import Metric from '../Metric';
+import QuestionActions from '../questions/QuestionActions';
 
 interface Tag {
   _id: string;
@@ -16,12 +18,32 @@ interface QuestionCardProps {
   question: Question;
 }
 
-const QuestionTitle = ({ id, title }: { id: string; title: string }) => (
+// Renders search highlight segments, marking the matched terms
+const HighlightedText = ({ segments }: { segments: HighlightSegment[] }) =>
+  segments.map((segment, index) =>
+    segment.match ? (
+      <mark key={index} className="rounded-sm bg-primary-100 text-inherit dark:bg-primary-500/30">
+        {segment.text}
+      </mark>
+    ) : (
+      <React.Fragment key={index}>{segment.text}</React.Fragment>
+    )
+  );
+
+const QuestionTitle = ({ id, title, highlight }: { id: string; title: string; highlight?: SearchHighlight }) => (
   <Link href={ROUTES.QUESTION(id)}>
-    <h3 className="sm:h3-semibold base-semibold text-dark200_light900 line-clamp-1 flex-1">{title}</h3>
+    <h3 className="sm:h3-semibold base-semibold text-dark200_light900 line-clamp-1 flex-1">
+      {highlight ? <HighlightedText segments={highlight.title} /> : title}
+    </h3>
   </Link>
 );
 
+const SearchExcerpt = ({ segments }: { segments: HighlightSegment[] }) => (
+  <p className="body-regular text-dark500_light700 mt-3.5 line-clamp-2">
+    <HighlightedText segments={segments} />
+  </p>
+);
+
 const TagList = ({ tags }: { tags: Tag[] }) => (
   <div className="mt-3.5 flex w-full flex-wrap gap-2">
     {tags.map(tag => (
@@ -56,6 +78,13 @@ const QuestionMetrics = ({ upvotes, answers, views }: Pick<Question, 'upvotes' |
   </div>
 );
 
+const AnsweredBadge = () => (
+  <span className="small-medium flex items-center gap-1 rounded-md bg-green-500/10 px-2 py-1 text-green-600 dark:text-green-500">
+    <CircleCheck className="size-3.5" aria-hidden="true" />
+    Answered
+  </span>
+);
+
 const AuthorInfo = ({ author, createdAt }: { author: Author; createdAt: Date }) => (
   <Metric
     imgUrl={author.image}
@@ -69,22 +98,29 @@ const AuthorInfo = ({ author, createdAt }: { author: Author; createdAt: Date })
 );
 
 const QuestionCard = ({ question }: QuestionCardProps) => {
-  const { _id, title, tags, author, createdAt, upvotes, answers, views } = question;
+  const { _id, title, tags, author, createdAt, upvotes, answers, views, acceptedAnswer, highlight, ignored } = question;
 
   return (
-    <div className="card-wrapper rounded-[10px] p-9 sm:px-11">
+    // Questions with one of the viewer's ignored tags stay readable, but step back
+    <div className={cn('card-wrapper rounded-[10px] p-9 sm:px-11', ignored && 'opacity-50 hover:opacity-100')}>
       <div className="flex flex-col-reverse items-start justify-between gap-5 sm:flex-row">
         <span className="subtle-regular text-dark400_light700 line-clamp-1 flex sm:hidden">
           {getTimeStamp(createdAt)}
         </span>
-        <QuestionTitle id={_id} title={title} />
+        <QuestionTitle id={_id} title={title} highlight={highlight} />
+        <QuestionActions questionId={_id} authorId={author._id} />
       </div>
 
+      {highlight && highlight.excerpt.length > 0 && <SearchExcerpt segments={highlight.excerpt} />}
+
       <TagList tags={tags} />
 
       <div className="flex-between mt-6 w-full flex-wrap gap-3">
         <AuthorInfo author={author} createdAt={createdAt} />
-        <QuestionMetrics upvotes={upvotes} answers={answers} views={views} />
+        <div className="flex items-center gap-3 max-sm:flex-wrap">
+          {acceptedAnswer && <AnsweredBadge />}
+          <QuestionMetrics upvotes={upvotes} answers={answers} views={views} />
+        </div>
       </div>
     </div>
   );
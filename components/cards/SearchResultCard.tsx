@@ -0,0 +1,17 @@
+import Image from 'next/image';
+import Link from 'next/link';
+
+import { SEARCHABLE_TYPE_ICONS } from '@/constants/search';
+
+const SearchResultCard = ({ type, title, excerpt, href }: GlobalSearchResult) => (
+  <Link href={href} className="card-wrapper flex items-start gap-4 rounded-[10px] px-7 py-6 sm:px-11">
+    <Image src={SEARCHABLE_TYPE_ICONS[type]} width={20} height={20} alt={type} className="invert-colors mt-1" />
+    <div className="flex min-w-0 flex-col gap-1">
+      <p className="subtle-medium text-dark400_light700 uppercase">{type}</p>
+      <h3 className="base-semibold text-dark200_light900 line-clamp-1">{title}</h3>
+      {excerpt && <p className="body-regular text-dark500_light700 line-clamp-2">{excerpt}</p>}
+    </div>
+  </Link>
+);
+
+export default SearchResultCard;
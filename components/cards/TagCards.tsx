@@ -5,12 +5,16 @@ import React from 'react';
 import ROUTES from '@/constants/routes';
 import { cn, getDevIconClassName, getTechDescription } from '@/lib/utils';
 
+import TagPreferenceToggle from '../tags/TagPreferenceToggle';
 import { Badge } from '../ui/badge';
 
 interface TagCardProps {
   _id: string;
   name: string;
   questions?: number;
+  excerpt?: string;
+  // Shows Watch and Ignore buttons on the full card when set, null meaning no preference yet
+  preference?: TagPreferenceKind | null;
   showCount?: boolean;
   compact?: boolean;
   remove?: boolean;
@@ -76,9 +80,9 @@ const CompactView = ({ _id, name, questions, showCount, remove, isButton, handle
   );
 };
 
-const FullView = ({ _id, name, questions }: TagCardProps) => (
-  <Link href={ROUTES.TAG(_id)} className="shadow-light100_darknone">
-    <article className="background-light900_dark200 light-border flex w-full flex-col rounded-2xl border px-8 py-10 sm:w-[260px]">
+const FullView = ({ _id, name, questions, excerpt, preference }: TagCardProps) => (
+  <article className="shadow-light100_darknone background-light900_dark200 light-border flex w-full flex-col rounded-2xl border px-8 py-10 sm:w-[260px]">
+    <Link href={ROUTES.TAG(_id)} className="flex flex-col">
       <div className="flex items-center justify-between gap-3">
         <div className="background-light800_dark400 w-fit rounded-sm px-5 py-1.5">
           <p className="paragraph-semibold text-dark300_light900">{name}</p>
@@ -86,20 +90,26 @@ const FullView = ({ _id, name, questions }: TagCardProps) => (
         <TagIcon name={name} size="2xl" />
       </div>
 
-      <p className="small-regular text-dark500_light700 mt-5 line-clamp-3 w-full">{getTechDescription(name)}</p>
+      <p className="small-regular text-dark500_light700 mt-5 line-clamp-3 w-full">
+        {excerpt || getTechDescription(name)}
+      </p>
 
       <p className="small-medium text-dark400_light500 mt-3.5">
         <span className="body-semibold primary-text-gradient mr-2.5">{questions}+</span>
         Questions
       </p>
-    </article>
-  </Link>
+    </Link>
+
+    {preference !== undefined && <TagPreferenceToggle tagId={_id} preference={preference} className="mt-5" />}
+  </article>
 );
 
 const TagCard = ({
   _id,
   name,
   questions = 0,
+  excerpt,
+  preference,
   showCount = false,
   compact = false,
   remove = false,
@@ -120,7 +130,7 @@ const TagCard = ({
     );
   }
 
-  return <FullView _id={_id} name={name} questions={questions} />;
+  return <FullView _id={_id} name={name} questions={questions} excerpt={excerpt} preference={preference} />;
 };
 
 export default TagCard;
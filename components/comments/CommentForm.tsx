@@ -0,0 +1,72 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ReloadIcon } from '@radix-ui/react-icons';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { CommentSchema } from '@/lib/validations';
+
+import { Button } from '../ui/button';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '../ui/form';
+
+type CommentFormValues = z.infer<typeof CommentSchema>;
+
+interface CommentFormProps {
+  defaultContent?: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+/**
+ * Short plain-text form used to add, reply to and edit comments
+ * The form is cleared once `onSubmit` reports success.
+ */
+const CommentForm = ({ defaultContent = '', submitLabel, isPending, onSubmit, onCancel }: CommentFormProps) => {
+  const form = useForm<CommentFormValues>({
+    resolver: zodResolver(CommentSchema),
+    defaultValues: { content: defaultContent },
+  });
+
+  const handleSubmit = async ({ content }: CommentFormValues) => {
+    if (await onSubmit(content)) form.reset({ content: '' });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="flex w-full flex-col gap-2">
+        <FormField
+          control={form.control}
+          name="content"
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <textarea
+                  {...field}
+                  rows={2}
+                  maxLength={600}
+                  className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus w-full rounded-md border p-3"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={isPending} className="primary-gradient w-fit !text-light-900">
+            {isPending && <ReloadIcon className="mr-2 size-4 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default CommentForm;
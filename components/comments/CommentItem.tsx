@@ -0,0 +1,180 @@
+'use client';
+
+import { ArrowBigUp } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useState, useTransition } from 'react';
+
+import ROUTES from '@/constants/routes';
+import { toast } from '@/hooks/use-toast';
+import { createComment, deleteComment, editComment, toggleCommentUpvote } from '@/lib/actions/comment.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+import { cn, getTimeStamp } from '@/lib/utils';
+
+import CommentForm from './CommentForm';
+import ConfirmDeleteDialog from '../ConfirmDeleteDialog';
+
+interface CommentItemProps {
+  comment: PostComment;
+  targetId: string;
+  targetType: 'question' | 'answer';
+}
+
+/**
+ * A single comment with its replies
+ *
+ * Signed-in users can upvote and reply; the author can edit or delete it,
+ * and moderators can delete it.
+ */
+const CommentItem = ({ comment, targetId, targetType }: CommentItemProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [mode, setMode] = useState<'view' | 'edit' | 'reply'>('view');
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const userId = session?.user?.id;
+  const isAuthor = userId === comment.author._id;
+  const canDelete = isAuthor || hasPermission(getSessionRole(session), 'deleteOthersContent');
+
+  // Runs a comment action and reports failures, resolving to whether it succeeded
+  const run = (task: () => Promise<ActionResponse<unknown>>, successMessage?: string) =>
+    new Promise<boolean>(resolve => {
+      startTransition(async () => {
+        const result = await task();
+
+        if (!result.success) {
+          toast({
+            title: 'Error',
+            description: result.error?.message || 'Something went wrong',
+            variant: 'destructive',
+          });
+          resolve(false);
+          return;
+        }
+
+        if (successMessage) toast({ title: 'Success', description: successMessage });
+        router.refresh();
+        resolve(true);
+      });
+    });
+
+  const handleUpvote = () => {
+    if (!userId) {
+      toast({ title: 'Please login to vote', description: 'Only logged-in users can vote.' });
+      return;
+    }
+
+    run(() => toggleCommentUpvote({ commentId: comment._id }));
+  };
+
+  const handleEdit = async (content: string) => {
+    const success = await run(() => editComment({ commentId: comment._id, content }), 'Comment updated');
+    if (success) setMode('view');
+    return success;
+  };
+
+  const handleReply = async (content: string) => {
+    const success = await run(
+      () => createComment({ targetId, targetType, content, parentId: comment._id }),
+      'Reply posted'
+    );
+    if (success) setMode('view');
+    return success;
+  };
+
+  const handleDelete = async () => {
+    const success = await run(() => deleteComment({ commentId: comment._id }), 'Comment deleted');
+    if (success) setIsDeleteOpen(false);
+  };
+
+  return (
+    <li className="light-border flex flex-col gap-2 border-b py-3 last:border-b-0">
+      <div className="flex items-start gap-3">
+        <button
+          type="button"
+          onClick={handleUpvote}
+          disabled={isPending || isAuthor}
+          aria-pressed={comment.hasUpvoted}
+          aria-label="Upvote comment"
+          className="flex-center shrink-0 flex-col disabled:cursor-default"
+        >
+          <ArrowBigUp
+            className={cn('size-5', comment.hasUpvoted ? 'fill-primary-500 text-primary-500' : 'text-light-400')}
+          />
+          <span className="subtle-medium text-dark400_light900">{comment.upvotes}</span>
+        </button>
+
+        {mode === 'edit' ? (
+          <CommentForm
+            defaultContent={comment.content}
+            submitLabel="Save"
+            isPending={isPending}
+            onSubmit={handleEdit}
+            onCancel={() => setMode('view')}
+          />
+        ) : (
+          <div className="flex-1">
+            <p className="body-regular text-dark300_light700 whitespace-pre-wrap break-words">
+              {comment.content}
+              <span className="small-regular text-light400_light500">
+                {' '}
+                –{' '}
+                <Link href={ROUTES.PROFILE(comment.author._id)} className="text-primary-500">
+                  {comment.author.name}
+                </Link>{' '}
+                {getTimeStamp(comment.createdAt)}
+              </span>
+            </p>
+
+            <div className="small-medium text-light400_light500 mt-1 flex items-center gap-3">
+              {userId && (
+                <button type="button" onClick={() => setMode('reply')}>
+                  Reply
+                </button>
+              )}
+              {isAuthor && (
+                <button type="button" onClick={() => setMode('edit')}>
+                  Edit
+                </button>
+              )}
+              {canDelete && (
+                <ConfirmDeleteDialog
+                  title="Delete this comment?"
+                  description="This permanently removes the comment and its replies."
+                  triggerLabel="Delete comment"
+                  open={isDeleteOpen}
+                  isPending={isPending}
+                  onOpenChange={setIsDeleteOpen}
+                  onConfirm={handleDelete}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {mode === 'reply' && (
+        <div className="pl-8">
+          <CommentForm
+            submitLabel="Reply"
+            isPending={isPending}
+            onSubmit={handleReply}
+            onCancel={() => setMode('view')}
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul className="ml-8 border-l pl-4 dark:border-dark-400">
+          {comment.replies.map(reply => (
+            <CommentItem key={reply._id} comment={reply} targetId={targetId} targetType={targetType} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export default CommentItem;
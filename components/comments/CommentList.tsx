@@ -0,0 +1,98 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useState, useTransition } from 'react';
+
+import { toast } from '@/hooks/use-toast';
+import { createComment } from '@/lib/actions/comment.action';
+
+import CommentForm from './CommentForm';
+import CommentItem from './CommentItem';
+
+// Number of comment threads shown before the list is expanded
+const COLLAPSED_COUNT = 3;
+
+interface CommentListProps {
+  targetId: string;
+  targetType: 'question' | 'answer';
+  comments: PostComment[];
+}
+
+/**
+ * Collapsible list of comment threads with a form to add a new comment
+ */
+const CommentList = ({ targetId, targetType, comments }: CommentListProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const visibleComments = isExpanded ? comments : comments.slice(0, COLLAPSED_COUNT);
+  const hiddenCount = comments.length - visibleComments.length;
+
+  const handleCreate = (content: string) =>
+    new Promise<boolean>(resolve => {
+      startTransition(async () => {
+        const result = await createComment({ targetId, targetType, content });
+
+        if (!result.success) {
+          toast({
+            title: 'Error',
+            description: result.error?.message || 'Failed to post comment',
+            variant: 'destructive',
+          });
+          resolve(false);
+          return;
+        }
+
+        setIsFormOpen(false);
+        router.refresh();
+        resolve(true);
+      });
+    });
+
+  return (
+    <div className="mt-6">
+      {visibleComments.length > 0 && (
+        <ul className="light-border border-t">
+          {visibleComments.map(comment => (
+            <CommentItem key={comment._id} comment={comment} targetId={targetId} targetType={targetType} />
+          ))}
+        </ul>
+      )}
+
+      <div className="small-medium mt-2 flex items-center gap-4 text-primary-500">
+        {hiddenCount > 0 && (
+          <button type="button" onClick={() => setIsExpanded(true)}>
+            Show {hiddenCount} more {hiddenCount === 1 ? 'comment' : 'comments'}
+          </button>
+        )}
+        {isExpanded && comments.length > COLLAPSED_COUNT && (
+          <button type="button" onClick={() => setIsExpanded(false)}>
+            Show fewer comments
+          </button>
+        )}
+        {session?.user && !isFormOpen && (
+          <button type="button" onClick={() => setIsFormOpen(true)}>
+            Add a comment
+          </button>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <div className="mt-3">
+          <CommentForm
+            submitLabel="Add Comment"
+            isPending={isPending}
+            onSubmit={handleCreate}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentList;
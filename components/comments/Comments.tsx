@@ -0,0 +1,19 @@
+import { getComments } from '@/lib/actions/comment.action';
+
+import CommentList from './CommentList';
+
+interface CommentsProps {
+  targetId: string;
+  targetType: 'question' | 'answer';
+}
+
+/**
+ * Loads the comment threads of a question or an answer
+ */
+const Comments = async ({ targetId, targetType }: CommentsProps) => {
+  const { data: comments = [] } = await getComments({ targetId, targetType });
+
+  return <CommentList targetId={targetId} targetType={targetType} comments={comments} />;
+};
+
+export default Comments;
@@ -16,6 +16,7 @@ const filters = [
   { name: 'Popular', value: 'popular' },
   { name: 'Html/Css', value: 'html/css' },
   { name: 'Recommended', value: 'recommended' },
+  { name: 'Watched tags', value: 'watched' },
 ];
 
 const HomeFilter = () => {
@@ -5,15 +5,18 @@ import { MDXEditorMethods } from '@mdxeditor/editor';
 import { ReloadIcon } from '@radix-ui/react-icons';
 import dynamic from 'next/dynamic';
 import Image from 'next/image';
-import { useRef, useState, useTransition } from 'react';
+import { useEffect, useRef, useState, useTransition } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 
 import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
 import { toast } from '@/hooks/use-toast';
+import { getAIQuota } from '@/lib/actions/aiQuota.action';
 import { createAnswer } from '@/lib/actions/createAnswer.action';
 import { generateAIAnswer } from '@/lib/actions/generateAiAnswer.action';
+import { streamAIAnswer } from '@/lib/ai-stream';
+import { cn, formatAIAnswer } from '@/lib/utils';
 import { AnswerSchema } from '@/lib/validations';
 
 // Dynamically import the Editor component
@@ -29,6 +32,12 @@ type AnswerFormProps = {
 
 type AnswerFormValues = z.infer<typeof AnswerSchema>;
 
+// The draft sent with the last generation, and the editor content it produced
+interface AIGeneration {
+  draft?: string;
+  result: string;
+}
+
 interface LoadingButtonProps {
   isLoading: boolean;
   loadingText: string;
@@ -41,7 +50,10 @@ interface LoadingButtonProps {
 const AnswerForm = ({ questionId, questionTitle, questionContent }: AnswerFormProps) => {
   const [isPending, startTransition] = useTransition();
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  const [aiQuota, setAIQuota] = useState<AIQuota | null>(null);
   const editorRef = useRef<MDXEditorMethods>(null);
+  const aiAbortControllerRef = useRef<AbortController | null>(null);
+  const lastAIGenerationRef = useRef<AIGeneration | null>(null);
 
   const form = useForm<AnswerFormValues>({
     resolver: zodResolver(AnswerSchema),
@@ -50,6 +62,18 @@ const AnswerForm = ({ questionId, questionTitle, questionContent }: AnswerFormPr
     },
   });
 
+  const refreshAIQuota = async () => {
+    const { success, data } = await getAIQuota();
+    if (success) setAIQuota(data ?? null);
+  };
+
+  useEffect(() => {
+    refreshAIQuota();
+
+    // Stop a running generation when the form goes away
+    return () => aiAbortControllerRef.current?.abort();
+  }, []);
+
   const handleSubmit = async (values: AnswerFormValues) => {
     startTransition(async () => {
       try {
@@ -85,52 +109,114 @@ const AnswerForm = ({ questionId, questionTitle, questionContent }: AnswerFormPr
     });
   };
 
-  // Generate AI answer
+  const setAnswerContent = (content: string) => {
+    editorRef.current?.setMarkdown(content);
+    form.setValue('content', content, {
+      shouldDirty: true,
+      shouldValidate: true,
+    });
+    form.trigger('content');
+  };
+
+  // Generate AI answer, streamed into the editor when the provider supports it
   const handleGenerateAIAnswer = async () => {
+    const controller = new AbortController();
+    aiAbortControllerRef.current = controller;
     setIsGeneratingAI(true);
 
+    // Renders at most once per frame, however fast chunks arrive
+    let streamedText = '';
+    let frame: number | null = null;
+    const renderStreamedText = () => {
+      frame = null;
+      editorRef.current?.setMarkdown(formatAIAnswer(streamedText));
+    };
+
     try {
-      const userAnswer = editorRef.current?.getMarkdown();
-      const result = await generateAIAnswer(questionTitle, questionContent, userAnswer);
+      // Asking again without touching the generated answer sends the same draft,
+      // so the cached answer comes back instead of a new completion
+      const currentContent = editorRef.current?.getMarkdown();
+      const lastGeneration = lastAIGenerationRef.current;
+      const userAnswer =
+        lastGeneration && lastGeneration.result === currentContent ? lastGeneration.draft : currentContent;
 
-      if (!result.success) {
-        toast({
-          title: 'Error',
-          description: result.error?.message,
-          variant: 'destructive',
-        });
-        return;
-      }
+      const streamedAnswer = await streamAIAnswer(
+        { questionId, question: questionTitle, content: questionContent, userAnswer },
+        {
+          signal: controller.signal,
+          onChunk: (_, text) => {
+            streamedText = text;
+            frame ??= requestAnimationFrame(renderStreamedText);
+          },
+        }
+      );
 
-      if (editorRef.current) {
-        editorRef.current.setMarkdown(result.data);
-        form.setValue('content', result.data, {
-          shouldDirty: true,
-          shouldValidate: true,
-        });
-        form.trigger('content');
+      let answer: string;
+      if (streamedAnswer !== null) {
+        answer = streamedAnswer;
+      } else {
+        const result = await generateAIAnswer(questionId, questionTitle, questionContent, userAnswer);
+
+        // The action cannot be aborted, so a cancelled result is dropped instead
+        if (controller.signal.aborted) return;
+
+        if (!result.success) {
+          toast({
+            title: 'Error',
+            description: result.error?.message,
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        answer = result.data;
       }
 
+      setAnswerContent(formatAIAnswer(answer));
+      lastAIGenerationRef.current = { draft: userAnswer, result: editorRef.current?.getMarkdown() ?? '' };
+
       toast({
         title: 'Success',
         description: 'AI-generated answer has been created',
       });
     } catch (error) {
+      // Whatever was streamed before a cancel or a failure stays in the editor
+      if (streamedText) setAnswerContent(formatAIAnswer(streamedText));
+      if (controller.signal.aborted) return;
+
       toast({
         title: 'Error',
         description: error instanceof Error ? error.message : 'There was a problem with your request',
         variant: 'destructive',
       });
     } finally {
+      if (frame !== null) cancelAnimationFrame(frame);
+      aiAbortControllerRef.current = null;
       setIsGeneratingAI(false);
+      refreshAIQuota();
     }
   };
 
+  const handleCancelAIAnswer = () => {
+    aiAbortControllerRef.current?.abort();
+
+    toast({
+      title: 'Cancelled',
+      description: 'AI answer generation was stopped',
+    });
+  };
+
   return (
     <div>
       <div className="flex flex-col justify-between gap-5 sm:flex-row sm:items-center sm:gap-2">
         <h4 className="paragraph-semibold text-dark400_light800">Write your answer here</h4>
-        <AIGenerateButton isLoading={isGeneratingAI} onClick={handleGenerateAIAnswer} />
+        <div className="flex flex-col gap-2 sm:items-end">
+          <div className="flex items-center gap-2">
+            {isGeneratingAI && <AICancelButton onClick={handleCancelAIAnswer} />}
+            <AIGenerateButton isLoading={isGeneratingAI} onClick={handleGenerateAIAnswer} />
+          </div>
+          {aiQuota && <AIQuotaCounter quota={aiQuota} />}
+        </div>
       </div>
 
       <Form {...form}>
@@ -168,6 +254,22 @@ const AIGenerateButton = ({ isLoading, onClick }: { isLoading: boolean; onClick:
   />
 );
 
+const AIQuotaCounter = ({ quota: { remaining, limit } }: { quota: AIQuota }) => (
+  <p className={cn('small-regular', remaining === 0 ? 'text-red-500' : 'text-dark400_light700')}>
+    {remaining} of {limit} AI answers left today
+  </p>
+);
+
+const AICancelButton = ({ onClick }: { onClick: () => void }) => (
+  <Button
+    type="button"
+    className="btn light-border-2 text-dark400_light800 rounded-md border px-4 py-2.5 shadow-none"
+    onClick={onClick}
+  >
+    Cancel
+  </Button>
+);
+
 const SubmitButton = ({ isLoading }: { isLoading: boolean }) => (
   <LoadingButton
     type="submit"
@@ -0,0 +1,137 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ReloadIcon } from '@radix-ui/react-icons';
+import { useRouter } from 'next/navigation';
+import React, { useTransition } from 'react';
+import { Path, useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import ROUTES from '@/constants/routes';
+import { toast } from '@/hooks/use-toast';
+import { updateUser } from '@/lib/actions/user.action';
+import { ProfileSchema } from '@/lib/validations';
+
+import { Button } from '../ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../ui/form';
+import { Input } from '../ui/input';
+
+type ProfileFormData = z.infer<typeof ProfileSchema>;
+
+interface ProfileFormProps {
+  user: User;
+}
+
+const INPUT_FIELDS: Array<{ name: Path<ProfileFormData>; label: string; required?: boolean; placeholder?: string }> = [
+  { name: 'name', label: 'Full Name', required: true },
+  { name: 'username', label: 'Username', required: true },
+  { name: 'portfolio', label: 'Portfolio Link', placeholder: 'https://your-portfolio.dev' },
+  { name: 'location', label: 'Location', placeholder: 'Where are you from?' },
+  { name: 'image', label: 'Profile Picture URL', placeholder: 'https://...' },
+];
+
+const inputClassName =
+  'paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-[56px] border';
+
+const ProfileForm = ({ user }: ProfileFormProps) => {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(ProfileSchema),
+    defaultValues: {
+      name: user.name || '',
+      username: user.username || '',
+      portfolio: user.portfolio || '',
+      location: user.location || '',
+      image: user.image || '',
+      bio: user.bio || '',
+    },
+  });
+
+  const handleProfileForm = (data: ProfileFormData) => {
+    startTransition(async () => {
+      const result = await updateUser(data);
+
+      if (result.success) {
+        toast({
+          title: 'Success',
+          description: 'Profile updated successfully',
+        });
+
+        router.push(ROUTES.PROFILE(user._id));
+        return;
+      }
+
+      // Show field errors (e.g. a taken username) next to the field they belong to
+      Object.entries(result.error?.details ?? {}).forEach(([field, messages]) =>
+        form.setError(field as Path<ProfileFormData>, { message: messages.join(' ') })
+      );
+
+      toast({
+        title: `Error ${result.status}`,
+        description: result.error?.message || 'Something went wrong',
+        variant: 'destructive',
+      });
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form className="mt-9 flex w-full flex-col gap-9" onSubmit={form.handleSubmit(handleProfileForm)}>
+        {INPUT_FIELDS.map(({ name, label, required, placeholder }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem className="flex w-full flex-col gap-3">
+                <FormLabel className="paragraph-semibold text-dark400_light800">
+                  {label} {required && <span className="text-primary-500">*</span>}
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder={placeholder} className={inputClassName} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <FormField
+          control={form.control}
+          name="bio"
+          render={({ field }) => (
+            <FormItem className="flex w-full flex-col gap-3">
+              <FormLabel className="paragraph-semibold text-dark400_light800">Bio</FormLabel>
+              <FormControl>
+                <textarea
+                  rows={5}
+                  placeholder="What's special about you?"
+                  className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus rounded-md border p-3"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="mt-7 flex justify-end">
+          <Button type="submit" disabled={isPending} className="primary-gradient w-fit !text-light-900">
+            {isPending ? (
+              <>
+                <ReloadIcon className="mr-2 size-4 animate-spin" />
+                <span>Saving</span>
+              </>
+            ) : (
+              <>Save Changes</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ProfileForm;
@@ -4,7 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { MDXEditorMethods } from '@mdxeditor/editor';
 import { ReloadIcon } from '@radix-ui/react-icons';
 import { useRouter } from 'next/navigation';
-import React, { useRef, useTransition } from 'react';
+import React, { useRef, useState, useTransition } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 
@@ -19,6 +19,8 @@ import { QuestionTagField } from './QuestionTagField';
 import { QuestionTitleField } from './QuestionTitleField';
 import { Button } from '../ui/button';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '../ui/form';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
 
 type QuestionFormData = z.infer<typeof AskQuestionSchema>;
 
@@ -31,6 +33,8 @@ const QuestionForm = ({ question, isEdit = false }: QuestionFormParams) => {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const editorRef = useRef<MDXEditorMethods>(null);
+  // Optional note shown next to the edit in the question's revision history
+  const [summary, setSummary] = useState('');
 
   const form = useForm<QuestionFormData>({
     resolver: zodResolver(AskQuestionSchema),
@@ -44,7 +48,9 @@ const QuestionForm = ({ question, isEdit = false }: QuestionFormParams) => {
   const handleQuestionForm = async (data: QuestionFormData) => {
     startTransition(async () => {
       const result =
-        isEdit && question ? await editQuestion({ questionId: question._id, ...data }) : await createQuestion(data);
+        isEdit && question
+          ? await editQuestion({ questionId: question._id, ...data, summary: summary.trim() || undefined })
+          : await createQuestion(data);
 
       if (result.success) {
         toast({
@@ -88,6 +94,22 @@ const QuestionForm = ({ question, isEdit = false }: QuestionFormParams) => {
           )}
         />
 
+        {isEdit && (
+          <div className="flex w-full flex-col gap-3">
+            <Label htmlFor="edit-summary" className="paragraph-semibold text-dark400_light800">
+              Edit Summary
+            </Label>
+            <Input
+              id="edit-summary"
+              value={summary}
+              maxLength={200}
+              onChange={e => setSummary(e.target.value)}
+              className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-[56px] border"
+            />
+            <p className="body-regular text-light-500">Briefly describe what you changed and why.</p>
+          </div>
+        )}
+
         <div className="mt-16 flex justify-end">
           <Button type="submit" disabled={isPending} className="primary-gradient w-fit !text-light-900">
             {isPending ? (
@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { UseFormReturn } from 'react-hook-form';
 import { z } from 'zod';
 
+import { getFrequentlyUsedWith } from '@/lib/actions/relatedTags.action';
+import { searchTags } from '@/lib/actions/tag.action';
+import { cn } from '@/lib/utils';
 import { AskQuestionSchema } from '@/lib/validations';
 
 import TagCard from '../cards/TagCards';
@@ -9,6 +12,9 @@ import { Input } from '../ui/input';
 
 type AskQuestionFormData = z.infer<typeof AskQuestionSchema>;
 
+// Time to wait after the author stops typing before suggesting tags (in milliseconds)
+const DEBOUNCE_DELAY = 300;
+
 interface QuestionTagFieldProps {
   form: UseFormReturn<AskQuestionFormData>;
   field: {
@@ -17,42 +23,201 @@ interface QuestionTagFieldProps {
   };
 }
 
+interface TagSuggestionListProps {
+  suggestions: TagSuggestion[];
+  activeIndex: number;
+  onHover: (index: number) => void;
+  onSelect: (name: string) => void;
+}
+
+const TagSuggestionList = ({ suggestions, activeIndex, onHover, onSelect }: TagSuggestionListProps) => (
+  <ul
+    id="question-tag-suggestions"
+    role="listbox"
+    className="background-light800_dark400 absolute top-full z-10 mt-2 w-full rounded-xl py-2 shadow-sm dark:bg-dark-400"
+  >
+    {suggestions.map((suggestion, index) => (
+      <li
+        key={suggestion._id}
+        id={`question-tag-suggestion-${index}`}
+        role="option"
+        aria-selected={index === activeIndex}
+        // Keep the focus in the input so the list does not close before the click lands
+        onMouseDown={event => event.preventDefault()}
+        onMouseEnter={() => onHover(index)}
+        onClick={() => onSelect(suggestion.name)}
+        className={cn(
+          'flex cursor-pointer flex-col gap-1 px-5 py-2.5',
+          index === activeIndex && 'bg-light-700/50 dark:bg-dark-500/50'
+        )}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <p className="body-medium text-dark200_light800 uppercase">
+            {suggestion.name}
+            {suggestion.synonym && (
+              <span className="small-regular text-light400_light500 ml-2 normal-case">
+                synonym: {suggestion.synonym}
+              </span>
+            )}
+          </p>
+          <p className="small-medium text-dark500_light700 shrink-0">
+            {suggestion.questions} {suggestion.questions === 1 ? 'question' : 'questions'}
+          </p>
+        </div>
+        {suggestion.excerpt && (
+          <p className="small-regular text-light400_light500 line-clamp-2">{suggestion.excerpt}</p>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Tag input of the question form
+ *
+ * Existing tags are suggested while the author types, with their question
+ * count and excerpt, and can be picked with the arrow keys and Enter. Typing a
+ * tag that does not exist yet asks for a second Enter, so new tags are only
+ * created on purpose. Once tags are picked, the tags most often used together
+ * with them are offered as well.
+ */
 export const QuestionTagField = ({ form, field }: QuestionTagFieldProps) => {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // New tag the author was warned about; pressing Enter again creates it
+  const [newTagWarning, setNewTagWarning] = useState<string | null>(null);
+  const [relatedTags, setRelatedTags] = useState<RelatedTag[]>([]);
+  // Changes whenever a tag is added or removed, unlike the array itself on every render
+  const selectedTags = JSON.stringify(field.value);
+
+  useEffect(() => {
+    const query = input.trim();
+    if (!query) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    // Ignore responses for a query the author has already typed past
+    let isStale = false;
+    setIsLoading(true);
+
+    const debounceTimer = setTimeout(async () => {
+      const { success, data } = await searchTags({ query });
+      if (isStale) return;
+
+      setSuggestions(success ? (data ?? []) : []);
+      setActiveIndex(-1);
+      setIsLoading(false);
+    }, DEBOUNCE_DELAY);
+
+    return () => {
+      isStale = true;
+      clearTimeout(debounceTimer);
+    };
+  }, [input]);
+
+  useEffect(() => {
+    const tags: string[] = JSON.parse(selectedTags);
+    if (tags.length === 0) {
+      setRelatedTags([]);
+      return;
+    }
+
+    let isStale = false;
+
+    getFrequentlyUsedWith({ tags }).then(({ success, data }) => {
+      if (!isStale) setRelatedTags(success ? (data ?? []) : []);
+    });
+
+    return () => {
+      isStale = true;
+    };
+  }, [selectedTags]);
+
+  const addTag = (tag: string) => {
+    if (tag.length > 15) {
+      form.setError('tags', {
+        type: 'manual',
+        message: 'Tag should be less than 15 characters',
+      });
+      return;
+    }
+
+    if (field.value.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      form.setError('tags', {
+        type: 'manual',
+        message: 'Tag already exists',
+      });
+      return;
+    }
+
+    if (field.value.length >= 3) {
+      form.setError('tags', {
+        type: 'manual',
+        message: 'You can only add up to 3 tags',
+      });
+      return;
+    }
+
+    form.setValue('tags', [...field.value, tag]);
+    form.clearErrors('tags');
+    setInput('');
+    setSuggestions([]);
+    setNewTagWarning(null);
+    setIsOpen(false);
+  };
+
   const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
+    const hasSuggestions = isOpen && !isLoading && suggestions.length > 0;
+
+    if (e.key === 'ArrowDown' && hasSuggestions) {
       e.preventDefault();
-      const tagInput = e.currentTarget.value.trim();
-
-      if (!tagInput) return;
-
-      if (tagInput.length > 15) {
-        form.setError('tags', {
-          type: 'manual',
-          message: 'Tag should be less than 15 characters',
-        });
-        return;
-      }
-
-      if (field.value.includes(tagInput)) {
-        form.setError('tags', {
-          type: 'manual',
-          message: 'Tag already exists',
-        });
-        return;
-      }
-
-      if (field.value.length >= 3) {
-        form.setError('tags', {
-          type: 'manual',
-          message: 'You can only add up to 3 tags',
-        });
-        return;
-      }
-
-      form.setValue('tags', [...field.value, tagInput]);
-      e.currentTarget.value = '';
-      form.clearErrors('tags');
+      setActiveIndex(index => (index + 1) % suggestions.length);
+      return;
+    }
+
+    if (e.key === 'ArrowUp' && hasSuggestions) {
+      e.preventDefault();
+      setActiveIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      return;
+    }
+
+    if (e.key !== 'Enter') return;
+
+    e.preventDefault();
+    const tagInput = input.trim();
+
+    if (hasSuggestions && activeIndex >= 0) {
+      addTag(suggestions[activeIndex].name);
+      return;
     }
+
+    if (!tagInput) return;
+
+    // Typing the name or a synonym of an existing tag picks that tag
+    const existing = suggestions.find(suggestion =>
+      [suggestion.name, suggestion.synonym].some(name => name?.toLowerCase() === tagInput.toLowerCase())
+    );
+    if (existing) {
+      addTag(existing.name);
+      return;
+    }
+
+    if (newTagWarning?.toLowerCase() !== tagInput.toLowerCase()) {
+      setNewTagWarning(tagInput);
+      return;
+    }
+
+    addTag(tagInput);
   };
 
   const handleTagRemove = (tag: string) => {
@@ -67,13 +232,60 @@ export const QuestionTagField = ({ form, field }: QuestionTagFieldProps) => {
     }
   };
 
+  const showSuggestions = isOpen && !isLoading && suggestions.length > 0;
+
   return (
     <div>
-      <Input
-        className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-[56px] border"
-        placeholder="Add tags..."
-        onKeyDown={handleInputKeyDown}
-      />
+      <div className="relative">
+        <Input
+          className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-[56px] border"
+          placeholder="Add tags..."
+          value={input}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls="question-tag-suggestions"
+          aria-activedescendant={activeIndex >= 0 ? `question-tag-suggestion-${activeIndex}` : undefined}
+          onChange={e => {
+            setInput(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleInputKeyDown}
+        />
+        {showSuggestions && (
+          <TagSuggestionList
+            suggestions={suggestions}
+            activeIndex={activeIndex}
+            onHover={setActiveIndex}
+            onSelect={addTag}
+          />
+        )}
+      </div>
+
+      {newTagWarning && newTagWarning.toLowerCase() === input.trim().toLowerCase() && (
+        <p className="body-regular mt-2.5 text-primary-500">
+          &quot;{newTagWarning}&quot; is not an existing tag. Press Enter again to create it, or pick a suggestion.
+        </p>
+      )}
+
+      {field.value.length < 3 && relatedTags.length > 0 && (
+        <div className="mt-2.5 flex flex-wrap items-center gap-2">
+          <p className="body-regular text-light-500">Frequently used with:</p>
+          {relatedTags.map(tag => (
+            <button
+              key={tag._id}
+              type="button"
+              onClick={() => addTag(tag.name)}
+              className="subtle-medium background-light800_dark300 text-light400_light500 rounded-md px-3 py-1.5 uppercase hover:text-primary-500"
+            >
+              + {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+
       {field.value.length > 0 && (
         <div className="flex-start mt-2.5 flex-wrap gap-2.5">
           {field.value.map((tag: string) => (
@@ -0,0 +1,154 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { MDXEditorMethods } from '@mdxeditor/editor';
+import { ReloadIcon } from '@radix-ui/react-icons';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/navigation';
+import React, { useRef, useTransition } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import ROUTES from '@/constants/routes';
+import { toast } from '@/hooks/use-toast';
+import { editTagWiki } from '@/lib/actions/tagWiki.action';
+import { getTechDescription } from '@/lib/utils';
+import { EditTagWikiSchema } from '@/lib/validations';
+
+import { Button } from '../ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '../ui/form';
+import { Input } from '../ui/input';
+
+const Editor = dynamic(() => import('@/components/editor'), {
+  ssr: false,
+});
+
+const TagWikiFormSchema = EditTagWikiSchema.omit({ tagId: true });
+
+type TagWikiFormData = z.infer<typeof TagWikiFormSchema>;
+
+interface TagWikiFormProps {
+  tag: Tag;
+}
+
+const inputClassName =
+  'paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-[56px] border';
+
+/**
+ * Form to write or improve the wiki of a tag
+ * The excerpt starts from the built-in description when the tag has none yet.
+ */
+const TagWikiForm = ({ tag }: TagWikiFormProps) => {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const editorRef = useRef<MDXEditorMethods>(null);
+
+  const form = useForm<TagWikiFormData>({
+    resolver: zodResolver(TagWikiFormSchema),
+    defaultValues: {
+      excerpt: tag.excerpt || getTechDescription(tag.name),
+      wiki: tag.wiki || '',
+      summary: '',
+    },
+  });
+
+  const handleTagWikiForm = (data: TagWikiFormData) => {
+    startTransition(async () => {
+      const result = await editTagWiki({ tagId: tag._id, ...data, summary: data.summary?.trim() || undefined });
+
+      if (result.success) {
+        toast({
+          title: 'Success',
+          description: 'Tag wiki updated successfully',
+        });
+
+        router.push(ROUTES.TAG(tag._id));
+        return;
+      }
+
+      toast({
+        title: `Error ${result.status}`,
+        description: result.error?.message || 'Something went wrong',
+        variant: 'destructive',
+      });
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form className="mt-9 flex w-full flex-col gap-10" onSubmit={form.handleSubmit(handleTagWikiForm)}>
+        <FormField
+          control={form.control}
+          name="excerpt"
+          render={({ field }) => (
+            <FormItem className="flex w-full flex-col gap-3">
+              <FormLabel className="paragraph-semibold text-dark400_light800">
+                Excerpt <span className="text-primary-500">*</span>
+              </FormLabel>
+              <FormControl>
+                <textarea
+                  rows={3}
+                  className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus rounded-md border p-3"
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription className="body-regular mt-2.5 text-light-500">
+                A plain-text summary of what the tag is about, shown on tag cards.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="wiki"
+          render={({ field }) => (
+            <FormItem className="flex w-full flex-col">
+              <FormLabel className="paragraph-semibold text-dark400_light800">Wiki</FormLabel>
+              <FormControl>
+                <Editor value={field.value} editorRef={editorRef} fieldChange={field.onChange} />
+              </FormControl>
+              <FormDescription className="body-regular mt-2.5 text-light-500">
+                Explain when to use the tag, link to official documentation and list good resources.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="summary"
+          render={({ field }) => (
+            <FormItem className="flex w-full flex-col gap-3">
+              <FormLabel className="paragraph-semibold text-dark400_light800">Edit Summary</FormLabel>
+              <FormControl>
+                <Input maxLength={200} className={inputClassName} {...field} />
+              </FormControl>
+              <FormDescription className="body-regular text-light-500">
+                Briefly describe what you changed and why.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="mt-7 flex justify-end">
+          <Button type="submit" disabled={isPending} className="primary-gradient w-fit !text-light-900">
+            {isPending ? (
+              <>
+                <ReloadIcon className="mr-2 size-4 animate-spin" />
+                <span>Saving</span>
+              </>
+            ) : (
+              <>Save Wiki</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default TagWikiForm;
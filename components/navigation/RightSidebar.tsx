@@ -4,34 +4,27 @@ import React from 'react';
 
 import TagCard from '@/components/cards/TagCards';
 import ROUTES from '@/constants/routes';
+import { getHotQuestions } from '@/lib/actions/getHotQuestions.action';
+import { getPopularTags } from '@/lib/actions/tag.action';
+
+const RightSidebar = async () => {
+  const [{ data: hotQuestions = [] }, { data: popularTags = [] }] = await Promise.all([
+    getHotQuestions(),
+    getPopularTags(),
+  ]);
 
-const hotQuestions = [
-  { _id: '1', title: 'How to create a custom hook in React?' },
-  { _id: '2', title: 'How to use React Query?' },
-  { _id: '3', title: 'How to use Redux?' },
-  { _id: '4', title: 'How to use React Router?' },
-  { _id: '5', title: 'How to use React Context?' },
-];
-
-const popularTags = [
-  { _id: '1', name: 'react', questions: 100 },
-  { _id: '2', name: 'javascript', questions: 200 },
-  { _id: '3', name: 'typescript', questions: 150 },
-  { _id: '4', name: 'nextjs', questions: 50 },
-  { _id: '5', name: 'react-query', questions: 75 },
-];
-
-const RightSidebar = () => {
   return (
     <section className="custom-scrollbar background-light900_dark200 light-border sticky right-0 top-0 flex h-screen w-[350px] flex-col gap-6 overflow-y-auto border-l p-6 pt-36 shadow-light-300 dark:shadow-none max-xl:hidden">
       <div>
         <h3 className="h3-bold text-dark200_light900">Top Questions</h3>
 
         <div className="mt-7 flex w-full flex-col gap-[30px]">
+          {hotQuestions.length === 0 && <p className="body-regular text-dark500_light700">No questions yet.</p>}
+
           {hotQuestions.map(({ _id, title }) => (
             <Link
               key={_id}
-              href={ROUTES.PROFILE(_id)}
+              href={ROUTES.QUESTION(_id)}
               className="flex cursor-pointer items-center justify-between gap-7"
             >
               <p className="body-medium text-dark500_light700">{title}</p>
@@ -46,6 +39,8 @@ const RightSidebar = () => {
         <h3 className="h3-bold text-dark200_light900">Popular Tags</h3>
 
         <div className="mt-7 flex flex-col gap-4">
+          {popularTags.length === 0 && <p className="body-regular text-dark500_light700">No tags yet.</p>}
+
           {popularTags.map(({ _id, name, questions }) => (
             <TagCard key={_id} _id={_id} name={name} questions={questions} showCount compact />
           ))}
@@ -3,6 +3,7 @@ import Link from 'next/link';
 import React from 'react';
 
 import { auth } from '@/auth';
+import GlobalSearch from '@/components/search/GlobalSearch';
 import UserAvatar from '@/components/UserAvatar';
 
 import MobileNavigation from './MobileNavigation';
@@ -22,7 +23,7 @@ const Navbar = async () => {
         </p>
       </Link>
 
-      <p>General Search</p>
+      <GlobalSearch />
       <div className="flex-between gap-5">
         <ThemeSwitcher />
         {User?.id ? <UserAvatar id={User.id} name={User.name!} imageUrl={User?.image} /> : null}
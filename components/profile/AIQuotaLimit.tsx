@@ -0,0 +1,147 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useState, useTransition } from 'react';
+
+import { MAX_AI_DAILY_LIMIT } from '@/constants/ai';
+import { toast } from '@/hooks/use-toast';
+import { getUserAIQuota, setAIDailyLimit } from '@/lib/actions/aiQuota.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+
+import { Button } from '../ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '../ui/dialog';
+import { Input } from '../ui/input';
+
+interface AIQuotaLimitProps {
+  userId: string;
+  name: string;
+}
+
+/**
+ * Lets admins change how many AI answers a user may generate per day
+ * The user's usage for today is loaded when the dialog opens.
+ */
+const AIQuotaLimit = ({ userId, name }: AIQuotaLimitProps) => {
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [quota, setQuota] = useState<AIQuota | null>(null);
+  const [value, setValue] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  if (!hasPermission(getSessionRole(session), 'manageAIQuotas')) return null;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    setQuota(null);
+    startTransition(async () => {
+      const result = await getUserAIQuota({ userId });
+
+      if (!result.success || !result.data) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to load AI usage',
+          variant: 'destructive',
+        });
+        setOpen(false);
+        return;
+      }
+
+      setQuota(result.data);
+      setValue(String(result.data.limit));
+    });
+  };
+
+  const handleSave = (limit: number | null) => {
+    startTransition(async () => {
+      const result = await setAIDailyLimit({ userId, limit });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to update AI limit',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setOpen(false);
+      toast({
+        title: 'Success',
+        description: limit === null ? 'AI limit reset to the default' : `AI limit set to ${limit} answers per day`,
+      });
+    });
+  };
+
+  const limit = Number(value);
+  const isValidLimit = value.trim() !== '' && Number.isInteger(limit) && limit >= 0 && limit <= MAX_AI_DAILY_LIMIT;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          className="paragraph-medium btn-secondary text-dark300_light900 min-h-[46px] min-w-44 px-4 py-3"
+        >
+          AI Limit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="background-light800_dark300 border-none">
+        <DialogHeader>
+          <DialogTitle className="text-dark200_light900">Daily AI answer limit</DialogTitle>
+          <DialogDescription className="text-dark400_light700">
+            {quota
+              ? `${name} generated ${quota.used} of ${quota.limit} AI answers today${
+                  quota.isCustomLimit ? '' : ', using the default limit'
+                }.`
+              : 'Loading AI usage...'}
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="number"
+          min={0}
+          max={MAX_AI_DAILY_LIMIT}
+          value={value}
+          onChange={event => setValue(event.target.value)}
+          disabled={!quota}
+          className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-12 border"
+        />
+        <DialogFooter className="gap-2">
+          <DialogClose asChild>
+            <Button type="button" variant="outline" disabled={isPending}>
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isPending || !quota?.isCustomLimit}
+            onClick={() => handleSave(null)}
+          >
+            Use Default
+          </Button>
+          <Button
+            type="button"
+            disabled={isPending || !quota || !isValidLimit}
+            className="primary-gradient !text-light-900"
+            onClick={() => handleSave(limit)}
+          >
+            {isPending && quota ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AIQuotaLimit;
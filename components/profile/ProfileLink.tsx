@@ -0,0 +1,27 @@
+import Image from 'next/image';
+import Link from 'next/link';
+
+interface ProfileLinkProps {
+  imgUrl: string;
+  title: string;
+  href?: string;
+}
+
+/**
+ * Icon with a piece of profile information, rendered as a link when `href` is given
+ */
+const ProfileLink = ({ imgUrl, title, href }: ProfileLinkProps) => (
+  <div className="flex-center gap-1">
+    <Image src={imgUrl} alt={title} width={20} height={20} />
+
+    {href ? (
+      <Link href={href} target="_blank" rel="noopener noreferrer" className="paragraph-medium text-primary-500">
+        {title}
+      </Link>
+    ) : (
+      <p className="paragraph-medium text-dark400_light700">{title}</p>
+    )}
+  </div>
+);
+
+export default ProfileLink;
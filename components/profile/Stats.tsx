@@ -0,0 +1,52 @@
+import Image from 'next/image';
+
+import { formatNumber } from '@/lib/utils';
+
+interface StatsProps extends UserStats {
+  reputation: number;
+}
+
+interface StatCardProps {
+  imgUrl: string;
+  value: number;
+  title: string;
+}
+
+const StatCard = ({ imgUrl, value, title }: StatCardProps) => (
+  <div className="light-border background-light900_dark300 flex flex-wrap items-center justify-start gap-4 rounded-md border p-6 shadow-light-300 dark:shadow-dark-200">
+    <Image src={imgUrl} alt={title} width={40} height={50} />
+    <div>
+      <p className="paragraph-semibold text-dark200_light900">{formatNumber(value)}</p>
+      <p className="body-medium text-dark400_light700">{title}</p>
+    </div>
+  </div>
+);
+
+/**
+ * Profile stats: posts written, accepted answers and votes received
+ */
+const Stats = ({ totalQuestions, totalAnswers, acceptedAnswers, totalVotes, reputation }: StatsProps) => (
+  <div className="mt-10">
+    <h4 className="h3-semibold text-dark200_light900">
+      Stats <span className="small-semibold primary-text-gradient">{formatNumber(reputation)} reputation</span>
+    </h4>
+
+    <div className="mt-5 grid grid-cols-1 gap-5 xs:grid-cols-2 md:grid-cols-3">
+      <div className="light-border background-light900_dark300 flex flex-wrap items-center justify-evenly gap-4 rounded-md border p-6 shadow-light-300 dark:shadow-dark-200">
+        <div>
+          <p className="paragraph-semibold text-dark200_light900">{formatNumber(totalQuestions)}</p>
+          <p className="body-medium text-dark400_light700">Questions</p>
+        </div>
+        <div>
+          <p className="paragraph-semibold text-dark200_light900">{formatNumber(totalAnswers)}</p>
+          <p className="body-medium text-dark400_light700">Answers</p>
+        </div>
+      </div>
+
+      <StatCard imgUrl="/icons/gold-medal.svg" value={acceptedAnswers} title="Accepted Answers" />
+      <StatCard imgUrl="/icons/like.svg" value={totalVotes} title="Votes Received" />
+    </div>
+  </div>
+);
+
+export default Stats;
@@ -0,0 +1,118 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useState, useTransition } from 'react';
+
+import { toast } from '@/hooks/use-toast';
+import { closeQuestion, reopenQuestion } from '@/lib/actions/closeQuestion.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+
+import { Button } from '../ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '../ui/dialog';
+import { Input } from '../ui/input';
+
+interface CloseQuestionProps {
+  questionId: string;
+  isClosed: boolean;
+}
+
+const buttonClassName = 'small-medium light-border-2 btn-secondary text-dark400_light900 min-h-[32px] border px-3';
+
+/**
+ * Lets moderators close a question, with a reason, or reopen it
+ * Closed questions stay visible but no longer accept answers.
+ */
+const CloseQuestion = ({ questionId, isClosed }: CloseQuestionProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  if (!hasPermission(getSessionRole(session), 'closeQuestions')) return null;
+
+  const run = (task: () => Promise<ActionResponse>, successMessage: string) => {
+    startTransition(async () => {
+      const result = await task();
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Something went wrong',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setOpen(false);
+      setReason('');
+      toast({ title: 'Success', description: successMessage });
+      router.refresh();
+    });
+  };
+
+  if (isClosed) {
+    return (
+      <Button
+        type="button"
+        disabled={isPending}
+        className={buttonClassName}
+        onClick={() => run(() => reopenQuestion({ questionId }), 'Question reopened')}
+      >
+        {isPending ? 'Reopening...' : 'Reopen'}
+      </Button>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" className={buttonClassName}>
+          Close
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="background-light800_dark300 border-none">
+        <DialogHeader>
+          <DialogTitle className="text-dark200_light900">Close this question?</DialogTitle>
+          <DialogDescription className="text-dark400_light700">
+            The question stays visible, but nobody can answer it until it is reopened.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          value={reason}
+          onChange={event => setReason(event.target.value)}
+          placeholder="Why is this question being closed?"
+          maxLength={200}
+          className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-12 border"
+        />
+        <DialogFooter className="gap-2">
+          <DialogClose asChild>
+            <Button type="button" variant="outline" disabled={isPending}>
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button
+            type="button"
+            disabled={isPending || !reason.trim()}
+            className="primary-gradient !text-light-900"
+            onClick={() => run(() => closeQuestion({ questionId, reason }), 'Question closed')}
+          >
+            {isPending ? 'Closing...' : 'Close question'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloseQuestion;
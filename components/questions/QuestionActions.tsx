@@ -0,0 +1,96 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { use, useState, useTransition } from 'react';
+
+import type { Privilege } from '@/constants/privileges';
+import ROUTES from '@/constants/routes';
+import { toast } from '@/hooks/use-toast';
+import { deleteQuestion } from '@/lib/actions/deleteQuestion.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+
+import ConfirmDeleteDialog from '../ConfirmDeleteDialog';
+
+interface QuestionActionsProps {
+  questionId: string;
+  authorId: string;
+  // Only passed where privileged editing is offered, like on the question page
+  privilegesPromise?: Promise<ActionResponse<Record<Privilege, boolean>>>;
+}
+
+/**
+ * Edit and delete controls for a question
+ *
+ * The author gets both controls, as do moderators. Users with the
+ * editOthersPosts privilege can edit. Deleting asks for confirmation first,
+ * because it also removes every answer, vote and bookmark attached to the question.
+ */
+const QuestionActions = ({ questionId, authorId, privilegesPromise }: QuestionActionsProps) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const privileges = privilegesPromise ? use(privilegesPromise) : null;
+
+  const isAuthor = session?.user?.id === authorId;
+  const canEdit = isAuthor || !!privileges?.data?.editOthersPosts;
+  const canDelete = isAuthor || hasPermission(getSessionRole(session), 'deleteOthersContent');
+
+  if (!canEdit && !canDelete) return null;
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const result = await deleteQuestion({ questionId });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to delete question',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setOpen(false);
+      toast({
+        title: 'Success',
+        description: 'Question deleted successfully',
+      });
+
+      // Leave the question page, it no longer exists
+      if (pathname === ROUTES.QUESTION(questionId)) {
+        router.push(ROUTES.HOME);
+      } else {
+        router.refresh();
+      }
+    });
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-3 max-sm:w-full">
+      {canEdit && (
+        <Link href={ROUTES.EDIT_QUESTION(questionId)} aria-label="Edit question">
+          <Image src="/icons/edit.svg" alt="edit" width={14} height={14} className="cursor-pointer object-contain" />
+        </Link>
+      )}
+
+      {canDelete && (
+        <ConfirmDeleteDialog
+          title="Delete this question?"
+          description="This permanently removes the question together with its answers, votes and bookmarks."
+          triggerLabel="Delete question"
+          open={open}
+          isPending={isPending}
+          onOpenChange={setOpen}
+          onConfirm={handleDelete}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QuestionActions;
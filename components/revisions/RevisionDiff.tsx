@@ -0,0 +1,79 @@
+import { diffLines, diffWords, DiffPart } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+interface RevisionDiffProps {
+  from: Revision;
+  to: Revision;
+}
+
+export const partStyles: Record<DiffPart['type'], string> = {
+  added: 'bg-green-500/15 text-green-600 dark:text-green-400',
+  removed: 'bg-red-500/15 text-red-600 line-through dark:text-red-400',
+  unchanged: '',
+};
+
+export const linePrefix: Record<DiffPart['type'], string> = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+/**
+ * Inline diff between two revisions of a question
+ *
+ * The title is compared word by word, the tags as sets and the body line by line.
+ */
+const RevisionDiff = ({ from, to }: RevisionDiffProps) => {
+  const removedTags = from.tags.filter(tag => !to.tags.includes(tag));
+  const addedTags = to.tags.filter(tag => !from.tags.includes(tag));
+  const keptTags = to.tags.filter(tag => from.tags.includes(tag));
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section>
+        <h3 className="paragraph-semibold text-dark400_light800 mb-2">Title</h3>
+        <p className="paragraph-regular text-dark300_light700">
+          {diffWords(from.title, to.title).map((part, index) => (
+            <span key={index} className={partStyles[part.type]}>
+              {part.value}
+            </span>
+          ))}
+        </p>
+      </section>
+
+      <section>
+        <h3 className="paragraph-semibold text-dark400_light800 mb-2">Tags</h3>
+        <div className="flex flex-wrap gap-2">
+          {[
+            ...removedTags.map(tag => ({ tag, type: 'removed' as const })),
+            ...keptTags.map(tag => ({ tag, type: 'unchanged' as const })),
+            ...addedTags.map(tag => ({ tag, type: 'added' as const })),
+          ].map(({ tag, type }) => (
+            <span
+              key={`${type}-${tag}`}
+              className={cn(
+                'subtle-medium background-light800_dark300 rounded-md px-4 py-2 uppercase',
+                partStyles[type]
+              )}
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="paragraph-semibold text-dark400_light800 mb-2">Body</h3>
+        <pre className="background-light800_dark300 text-dark300_light700 overflow-x-auto rounded-lg p-4 text-sm">
+          {diffLines(from.content, to.content).map((part, index) => (
+            <div key={index} className={cn('whitespace-pre-wrap', partStyles[part.type])}>
+              {`${linePrefix[part.type]} ${part.value}`}
+            </div>
+          ))}
+        </pre>
+      </section>
+    </div>
+  );
+};
+
+export default RevisionDiff;
@@ -0,0 +1,66 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useTransition } from 'react';
+
+import { toast } from '@/hooks/use-toast';
+import { rollbackQuestion } from '@/lib/actions/editQuestion.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+
+import { Button } from '../ui/button';
+
+interface RollbackRevisionProps {
+  questionId: string;
+  revisionId: string;
+  revision: number;
+  authorId: string;
+}
+
+/**
+ * Restores the question to the given revision
+ * Only rendered for the author of the question and for moderators.
+ */
+const RollbackRevision = ({ questionId, revisionId, revision, authorId }: RollbackRevisionProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [isPending, startTransition] = useTransition();
+
+  const canRollback =
+    session?.user?.id === authorId || hasPermission(getSessionRole(session), 'rollbackOthersQuestions');
+  if (!canRollback) return null;
+
+  const handleRollback = () => {
+    startTransition(async () => {
+      const result = await rollbackQuestion({ questionId, revisionId });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to roll back the question',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: 'Success',
+        description: `Question rolled back to revision ${revision}`,
+      });
+      router.refresh();
+    });
+  };
+
+  return (
+    <Button
+      type="button"
+      onClick={handleRollback}
+      disabled={isPending}
+      className="small-medium light-border-2 btn-secondary text-dark400_light900 min-h-[32px] border px-3"
+    >
+      {isPending ? 'Rolling back...' : 'Roll back'}
+    </Button>
+  );
+};
+
+export default RollbackRevision;
@@ -0,0 +1,42 @@
+import { diffLines, diffWords } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+import { linePrefix, partStyles } from './RevisionDiff';
+
+interface TagRevisionDiffProps {
+  from: TagRevision;
+  to: TagRevision;
+}
+
+/**
+ * Inline diff between two revisions of a tag wiki
+ *
+ * The excerpt is compared word by word and the wiki line by line.
+ */
+const TagRevisionDiff = ({ from, to }: TagRevisionDiffProps) => (
+  <div className="flex flex-col gap-6">
+    <section>
+      <h3 className="paragraph-semibold text-dark400_light800 mb-2">Excerpt</h3>
+      <p className="paragraph-regular text-dark300_light700">
+        {diffWords(from.excerpt, to.excerpt).map((part, index) => (
+          <span key={index} className={partStyles[part.type]}>
+            {part.value}
+          </span>
+        ))}
+      </p>
+    </section>
+
+    <section>
+      <h3 className="paragraph-semibold text-dark400_light800 mb-2">Wiki</h3>
+      <pre className="background-light800_dark300 text-dark300_light700 overflow-x-auto rounded-lg p-4 text-sm">
+        {diffLines(from.wiki, to.wiki).map((part, index) => (
+          <div key={index} className={cn('whitespace-pre-wrap', partStyles[part.type])}>
+            {`${linePrefix[part.type]} ${part.value}`}
+          </div>
+        ))}
+      </pre>
+    </section>
+  </div>
+);
+
+export default TagRevisionDiff;
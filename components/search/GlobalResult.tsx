@@ -0,0 +1,95 @@
+import Image from 'next/image';
+import Link from 'next/link';
+
+import { SEARCHABLE_TYPE_ICONS, SEARCHABLE_TYPE_LABELS, SEARCHABLE_TYPES, SearchableType } from '@/constants/search';
+import { cn } from '@/lib/utils';
+
+interface GlobalResultProps {
+  results: GlobalSearchResult[];
+  isLoading: boolean;
+  type?: SearchableType;
+  onTypeChange: (type?: SearchableType) => void;
+  onSelect: () => void;
+}
+
+interface SearchHitProps {
+  hit: GlobalSearchResult;
+  onSelect: () => void;
+}
+
+const SearchHit = ({ hit, onSelect }: SearchHitProps) => (
+  <Link
+    href={hit.href}
+    onClick={onSelect}
+    className="flex w-full items-start gap-3 rounded-md px-5 py-2.5 hover:bg-light-700/50 dark:hover:bg-dark-500/50"
+  >
+    <Image
+      src={SEARCHABLE_TYPE_ICONS[hit.type]}
+      width={18}
+      height={18}
+      alt={hit.type}
+      className="invert-colors mt-1 object-contain"
+    />
+    <div className="flex min-w-0 flex-col">
+      <p className="body-medium text-dark200_light800 line-clamp-1">{hit.title}</p>
+      {hit.excerpt && <p className="small-regular text-light400_light500 mt-1 line-clamp-1">{hit.excerpt}</p>}
+    </div>
+  </Link>
+);
+
+/**
+ * Dropdown under the navbar search box
+ * Hits are grouped by type; the chips at the top narrow the search to one type.
+ */
+const GlobalResult = ({ results, isLoading, type, onTypeChange, onSelect }: GlobalResultProps) => {
+  const groups = SEARCHABLE_TYPES.map(searchType => ({
+    type: searchType,
+    hits: results.filter(hit => hit.type === searchType),
+  })).filter(({ hits }) => hits.length > 0);
+
+  return (
+    <div className="background-light800_dark400 absolute top-full z-10 mt-3 w-full rounded-xl py-5 shadow-sm dark:bg-dark-400">
+      <div className="flex flex-wrap items-center gap-3 px-5">
+        <p className="text-dark400_light900 body-medium">Type:</p>
+        {SEARCHABLE_TYPES.map(searchType => (
+          <button
+            key={searchType}
+            type="button"
+            onClick={() => onTypeChange(type === searchType ? undefined : searchType)}
+            className={cn(
+              'light-border-2 small-medium rounded-2xl px-5 py-2 capitalize',
+              type === searchType
+                ? 'bg-primary-500 text-light-900'
+                : 'bg-light-700 text-dark-400 hover:text-primary-500 dark:bg-dark-500 dark:text-light-800'
+            )}
+          >
+            {searchType}
+          </button>
+        ))}
+      </div>
+
+      <div className="my-5 h-px bg-light-700/50 dark:bg-dark-500/50" />
+
+      {isLoading ? (
+        <p className="text-dark200_light800 body-regular px-5">Searching...</p>
+      ) : groups.length === 0 ? (
+        <p className="text-dark200_light800 body-regular px-5">Oops, no results found</p>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {groups.map(group => (
+            <div key={group.type}>
+              <p className="text-dark400_light900 paragraph-semibold px-5">{SEARCHABLE_TYPE_LABELS[group.type]}</p>
+              {group.hits.map(hit => (
+                <SearchHit key={`${hit.type}-${hit.id}`} hit={hit} onSelect={onSelect} />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="small-regular text-light400_light500 mt-4 px-5">Press Enter to see all results</p>
+    </div>
+  );
+};
+
+export default GlobalResult;
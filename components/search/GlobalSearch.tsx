@@ -0,0 +1,119 @@
+'use client';
+
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import qs from 'query-string';
+import { KeyboardEvent, useEffect, useRef, useState } from 'react';
+
+import ROUTES from '@/constants/routes';
+import { GLOBAL_SEARCH_PREVIEW_LIMIT, SearchableType } from '@/constants/search';
+import { globalSearch } from '@/lib/actions/globalSearch.action';
+
+import GlobalResult from './GlobalResult';
+import { Input } from '../ui/input';
+
+// Time to wait after user stops typing before searching (in milliseconds)
+const DEBOUNCE_DELAY = 300;
+
+/**
+ * Navbar search across questions, answers, users and tags
+ *
+ * Workflow:
+ * 1. User types in the search box
+ * 2. After DEBOUNCE_DELAY ms, the top hits of each type appear in a dropdown
+ * 3. Selecting a hit opens its page
+ * 4. Pressing Enter opens the full results page
+ */
+const GlobalSearch = () => {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [type, setType] = useState<SearchableType>();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [results, setResults] = useState<GlobalSearchResult[]>([]);
+
+  // Close the dropdown when clicking anywhere else on the page
+  useEffect(() => {
+    const handleOutsideClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleOutsideClick);
+    return () => document.removeEventListener('mousedown', handleOutsideClick);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    // Ignore responses for a query the user has already typed past
+    let isStale = false;
+    setIsLoading(true);
+
+    const debounceTimer = setTimeout(async () => {
+      const { success, data } = await globalSearch({ query, type, pageSize: GLOBAL_SEARCH_PREVIEW_LIMIT });
+      if (isStale) return;
+
+      setResults(success ? (data?.results ?? []) : []);
+      setIsLoading(false);
+    }, DEBOUNCE_DELAY);
+
+    return () => {
+      isStale = true;
+      clearTimeout(debounceTimer);
+    };
+  }, [query, type]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      setIsOpen(false);
+      return;
+    }
+
+    if (event.key !== 'Enter' || !query.trim()) return;
+
+    router.push(qs.stringifyUrl({ url: ROUTES.SEARCH, query: { query: query.trim(), filter: type } }));
+    close();
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-[600px] max-lg:hidden">
+      <div className="background-light800_darkgradient relative flex min-h-[56px] grow items-center gap-1 rounded-xl px-4">
+        <label htmlFor="global-search">
+          <Image src="/icons/search.svg" width={24} height={24} alt="search" className="cursor-pointer" />
+        </label>
+        <Input
+          id="global-search"
+          type="text"
+          value={query}
+          placeholder="Search anything globally..."
+          autoComplete="off"
+          onChange={event => {
+            setQuery(event.target.value);
+            setIsOpen(!!event.target.value);
+          }}
+          onFocus={() => setIsOpen(!!query)}
+          onKeyDown={handleKeyDown}
+          className="paragraph-regular no-focus placeholder text-dark400_light700 border-none shadow-none outline-none"
+        />
+      </div>
+
+      {isOpen && query.trim() && (
+        <GlobalResult results={results} isLoading={isLoading} type={type} onTypeChange={setType} onSelect={close} />
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
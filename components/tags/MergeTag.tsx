@@ -0,0 +1,112 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useState, useTransition } from 'react';
+
+import ROUTES from '@/constants/routes';
+import { toast } from '@/hooks/use-toast';
+import { mergeTags } from '@/lib/actions/tagSynonym.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+
+import { Button } from '../ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '../ui/dialog';
+import { Input } from '../ui/input';
+
+interface MergeTagProps {
+  tagId: string;
+  name: string;
+}
+
+/**
+ * Lets moderators merge a duplicate tag into another one
+ * Its questions move to the other tag and its name becomes a synonym.
+ */
+const MergeTag = ({ tagId, name }: MergeTagProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  if (!hasPermission(getSessionRole(session), 'mergeTags')) return null;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setValue('');
+    setOpen(isOpen);
+  };
+
+  const handleMerge = () => {
+    startTransition(async () => {
+      const result = await mergeTags({ tagId, targetName: value.trim() });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to merge tag',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setOpen(false);
+      toast({ title: 'Success', description: `"${name}" merged into "${result.data!.name}"` });
+      router.replace(ROUTES.TAG(result.data!._id));
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          className="paragraph-medium btn-secondary text-dark300_light900 min-h-[46px] min-w-32 px-4 py-3"
+        >
+          Merge Tag
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="background-light800_dark300 border-none">
+        <DialogHeader>
+          <DialogTitle className="text-dark200_light900">Merge tag</DialogTitle>
+          <DialogDescription className="text-dark400_light700">
+            Questions tagged &quot;{name}&quot; move to the tag below, and &quot;{name}&quot; becomes its synonym. Its
+            wiki history moves too; a tag below that already has a wiki keeps it. This cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          value={value}
+          onChange={event => setValue(event.target.value)}
+          maxLength={30}
+          placeholder="Tag to merge into"
+          className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-12 border"
+        />
+        <DialogFooter className="gap-2">
+          <DialogClose asChild>
+            <Button type="button" variant="outline" disabled={isPending}>
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button
+            type="button"
+            disabled={isPending || !value.trim()}
+            className="primary-gradient !text-light-900"
+            onClick={handleMerge}
+          >
+            {isPending ? 'Merging...' : 'Merge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergeTag;
@@ -0,0 +1,29 @@
+import TagCard from '../cards/TagCards';
+
+interface RelatedTagsProps {
+  name: string;
+  tags: RelatedTag[];
+}
+
+/**
+ * Tags that most often appear on the same questions as the current tag
+ * Each one shows how many questions it shares with it.
+ */
+const RelatedTags = ({ name, tags }: RelatedTagsProps) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <section className="mt-6 flex flex-col gap-3">
+      <p className="paragraph-semibold text-dark300_light700">Related tags</p>
+      <div className="flex flex-wrap gap-x-6 gap-y-3">
+        {tags.map(tag => (
+          <div key={tag._id} className="flex items-center gap-2" title={`${tag.count} questions with ${name}`}>
+            <TagCard _id={tag._id} name={tag.name} questions={tag.count} showCount compact />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RelatedTags;
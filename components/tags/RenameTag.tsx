@@ -0,0 +1,109 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useState, useTransition } from 'react';
+
+import { toast } from '@/hooks/use-toast';
+import { editTag } from '@/lib/actions/tag.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+
+import { Button } from '../ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '../ui/dialog';
+import { Input } from '../ui/input';
+
+interface RenameTagProps {
+  tagId: string;
+  name: string;
+}
+
+/**
+ * Lets moderators rename a tag
+ * Every question using the tag shows the new name right away.
+ */
+const RenameTag = ({ tagId, name }: RenameTagProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState(name);
+  const [isPending, startTransition] = useTransition();
+
+  if (!hasPermission(getSessionRole(session), 'editTags')) return null;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setValue(name);
+    setOpen(isOpen);
+  };
+
+  const handleRename = () => {
+    startTransition(async () => {
+      const result = await editTag({ tagId, name: value });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to rename tag',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setOpen(false);
+      toast({ title: 'Success', description: 'Tag renamed successfully' });
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          className="paragraph-medium btn-secondary text-dark300_light900 min-h-[46px] min-w-32 px-4 py-3"
+        >
+          Rename Tag
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="background-light800_dark300 border-none">
+        <DialogHeader>
+          <DialogTitle className="text-dark200_light900">Rename tag</DialogTitle>
+          <DialogDescription className="text-dark400_light700">
+            Questions tagged &quot;{name}&quot; keep the tag under its new name.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          value={value}
+          onChange={event => setValue(event.target.value)}
+          maxLength={30}
+          className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-12 border"
+        />
+        <DialogFooter className="gap-2">
+          <DialogClose asChild>
+            <Button type="button" variant="outline" disabled={isPending}>
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button
+            type="button"
+            disabled={isPending || !value.trim() || value.trim() === name}
+            className="primary-gradient !text-light-900"
+            onClick={handleRename}
+          >
+            {isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RenameTag;
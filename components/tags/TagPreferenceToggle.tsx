@@ -0,0 +1,80 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useEffect, useState, useTransition } from 'react';
+
+import { toast } from '@/hooks/use-toast';
+import { setTagPreference } from '@/lib/actions/tagPreference.action';
+import { cn } from '@/lib/utils';
+
+interface TagPreferenceToggleProps {
+  tagId: string;
+  preference: TagPreferenceKind | null;
+  className?: string;
+}
+
+const OPTIONS: Array<{ kind: TagPreferenceKind; label: string; activeLabel: string }> = [
+  { kind: 'watched', label: 'Watch', activeLabel: 'Watching' },
+  { kind: 'ignored', label: 'Ignore', activeLabel: 'Ignored' },
+];
+
+/**
+ * Watch and Ignore buttons of a tag
+ * Clicking the active button clears the preference. Hidden for signed-out visitors.
+ */
+const TagPreferenceToggle = ({ tagId, preference, className }: TagPreferenceToggleProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [current, setCurrent] = useState(preference);
+  const [isPending, startTransition] = useTransition();
+
+  // Preferences can also change elsewhere on the page, e.g. in the tag preferences panel
+  useEffect(() => setCurrent(preference), [preference]);
+
+  if (!session?.user?.id) return null;
+
+  const handleClick = (kind: TagPreferenceKind) => {
+    const next = current === kind ? null : kind;
+
+    startTransition(async () => {
+      const result = await setTagPreference({ tagId, preference: next });
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to update tag preference',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setCurrent(next);
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      {OPTIONS.map(({ kind, label, activeLabel }) => (
+        <button
+          key={kind}
+          type="button"
+          disabled={isPending}
+          aria-pressed={current === kind}
+          onClick={() => handleClick(kind)}
+          className={cn(
+            'small-medium rounded-md px-3 py-1.5 disabled:opacity-50',
+            current === kind
+              ? 'bg-primary-100 text-primary-500 dark:bg-dark-400'
+              : 'background-light800_dark400 text-light400_light500 hover:text-primary-500'
+          )}
+        >
+          {current === kind ? activeLabel : label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TagPreferenceToggle;
@@ -0,0 +1,102 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+import { toast } from '@/hooks/use-toast';
+import { setHideIgnoredTags, setTagPreference } from '@/lib/actions/tagPreference.action';
+
+import TagCard from '../cards/TagCards';
+
+interface TagPreferencesPanelProps {
+  preferences: TagPreferences;
+}
+
+interface TagListProps {
+  title: string;
+  empty: string;
+  tags: Tag[];
+  onRemove: (tagId: string) => void;
+}
+
+const TagList = ({ title, empty, tags, onRemove }: TagListProps) => (
+  <div className="flex flex-col gap-3">
+    <p className="paragraph-semibold text-dark300_light700">{title}</p>
+    {tags.length === 0 ? (
+      <p className="body-regular text-light-500">{empty}</p>
+    ) : (
+      <div className="flex flex-wrap gap-2.5">
+        {tags.map(tag => (
+          <TagCard
+            key={tag._id}
+            compact
+            _id={tag._id}
+            name={tag.name}
+            remove
+            isButton
+            handleRemove={() => onRemove(tag._id)}
+          />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Manages the tags the current user watches and ignores
+ * Watched tags are boosted in the home feed; questions with ignored tags are
+ * dimmed there, or hidden when the user prefers.
+ */
+const TagPreferencesPanel = ({ preferences }: TagPreferencesPanelProps) => {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const runAction = (request: () => Promise<ActionResponse<unknown>>) => {
+    startTransition(async () => {
+      const result = await request();
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to update tag preferences',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  const handleRemove = (tagId: string) => runAction(() => setTagPreference({ tagId, preference: null }));
+
+  return (
+    <section className="background-light900_dark200 light-border mt-10 flex flex-col gap-6 rounded-2xl border px-8 py-6">
+      <TagList
+        title="Watched tags"
+        empty="Watch tags to see their questions first in your feed."
+        tags={preferences.watched}
+        onRemove={handleRemove}
+      />
+      <TagList
+        title="Ignored tags"
+        empty="Ignore tags you are not interested in to step their questions back in your feed."
+        tags={preferences.ignored}
+        onRemove={handleRemove}
+      />
+
+      <label className="body-regular text-dark400_light700 flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={preferences.hideIgnored}
+          disabled={isPending}
+          onChange={event => runAction(() => setHideIgnoredTags({ hide: event.target.checked }))}
+          className="size-4 accent-primary-500"
+        />
+        Hide questions with ignored tags instead of dimming them
+      </label>
+    </section>
+  );
+};
+
+export default TagPreferencesPanel;
@@ -0,0 +1,115 @@
+'use client';
+
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useState, useTransition } from 'react';
+
+import { toast } from '@/hooks/use-toast';
+import { addTagSynonym, removeTagSynonym } from '@/lib/actions/tagSynonym.action';
+import { getSessionRole, hasPermission } from '@/lib/permissions';
+
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+
+interface TagSynonymsProps {
+  tagId: string;
+  synonyms: TagSynonym[];
+}
+
+/**
+ * Aliases of a tag, shown on the tag page
+ * Moderators can record new synonyms and remove existing ones.
+ */
+const TagSynonyms = ({ tagId, synonyms }: TagSynonymsProps) => {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [value, setValue] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const canManage = hasPermission(getSessionRole(session), 'editTags');
+  if (!canManage && synonyms.length === 0) return null;
+
+  const runAction = (request: () => Promise<ActionResponse<unknown>>, success: string) => {
+    startTransition(async () => {
+      const result = await request();
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error?.message || 'Failed to update synonyms',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setValue('');
+      toast({ title: 'Success', description: success });
+      router.refresh();
+    });
+  };
+
+  const handleAdd = () => runAction(() => addTagSynonym({ tagId, name: value.trim() }), 'Synonym added');
+
+  const handleRemove = (synonymId: string) => runAction(() => removeTagSynonym({ synonymId }), 'Synonym removed');
+
+  return (
+    <section className="mt-6 flex flex-col gap-3">
+      <p className="paragraph-semibold text-dark300_light700">Synonyms</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {synonyms.length === 0 && <p className="body-regular text-light-500">This tag has no synonyms yet.</p>}
+        {synonyms.map(synonym => (
+          <Badge
+            key={synonym._id}
+            className="subtle-medium background-light800_dark300 text-light400_light500 flex items-center gap-2 rounded-md border-none px-4 py-2 uppercase"
+          >
+            {synonym.name}
+            {canManage && (
+              <button
+                type="button"
+                aria-label={`Remove synonym ${synonym.name}`}
+                disabled={isPending}
+                onClick={() => handleRemove(synonym._id)}
+              >
+                <Image
+                  src="/icons/close.svg"
+                  width={12}
+                  height={12}
+                  alt=""
+                  className="cursor-pointer object-contain invert-0 dark:invert"
+                />
+              </button>
+            )}
+          </Badge>
+        ))}
+      </div>
+
+      {canManage && (
+        <div className="flex max-w-md items-center gap-2">
+          <Input
+            value={value}
+            onChange={event => setValue(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter' && value.trim()) handleAdd();
+            }}
+            maxLength={30}
+            placeholder="Add a synonym..."
+            className="paragraph-regular background-light700_dark300 light-border-2 text-dark300_light700 no-focus min-h-10 border"
+          />
+          <Button
+            type="button"
+            disabled={isPending || !value.trim()}
+            className="primary-gradient !text-light-900"
+            onClick={handleAdd}
+          >
+            Add
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TagSynonyms;
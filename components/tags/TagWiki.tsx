@@ -0,0 +1,43 @@
+import Link from 'next/link';
+
+import ROUTES from '@/constants/routes';
+import { getTechDescription } from '@/lib/utils';
+
+import { Preview } from '../editor/preview';
+
+interface TagWikiProps {
+  tag: Tag;
+  canEdit: boolean;
+}
+
+/**
+ * Documentation shown at the top of a tag page
+ * Tags without a wiki yet show the built-in description of the technology.
+ */
+const TagWiki = ({ tag, canEdit }: TagWikiProps) => (
+  <section className="mt-6 flex flex-col gap-4">
+    <p className="paragraph-regular text-dark400_light700">{tag.excerpt || getTechDescription(tag.name)}</p>
+
+    {tag.wiki && (
+      <details className="background-light800_dark300 rounded-lg px-5 py-4">
+        <summary className="paragraph-semibold text-dark300_light700 cursor-pointer">About this tag</summary>
+        <div className="mt-4">
+          <Preview content={tag.wiki} />
+        </div>
+      </details>
+    )}
+
+    <div className="flex items-center gap-4">
+      {canEdit && (
+        <Link href={ROUTES.EDIT_TAG_WIKI(tag._id)} className="small-medium text-primary-500">
+          {tag.wiki || tag.excerpt ? 'Improve tag wiki' : 'Write tag wiki'}
+        </Link>
+      )}
+      <Link href={ROUTES.TAG_REVISIONS(tag._id)} className="small-medium text-dark400_light700">
+        Wiki history
+      </Link>
+    </div>
+  </section>
+);
+
+export default TagWiki;
@@ -4,9 +4,11 @@ import Image from 'next/image';
 import { useSession } from 'next-auth/react';
 import { use, useState } from 'react';
 
+import type { Privilege } from '@/constants/privileges';
 import { toast } from '@/hooks/use-toast';
 import { createVote } from '@/lib/actions/vote.action';
-import { formatNumber } from '@/lib/utils';
+import { describePrivilege } from '@/lib/permissions';
+import { cn, formatNumber } from '@/lib/utils';
 
 // Types
 type VoteType = 'upvote' | 'downvote';
@@ -17,6 +19,8 @@ interface VoteButtonProps {
   count: number;
   isVoted: boolean;
   isLoading: boolean;
+  // Explains why the button is disabled, shown as a tooltip
+  disabledReason?: string;
   onClick: () => Promise<void>;
 }
 
@@ -26,10 +30,11 @@ interface VotesProps {
   upvotes: number;
   downvotes: number;
   hasVotedPromise: Promise<ActionResponse<HasVotedResponse>>;
+  privilegesPromise: Promise<ActionResponse<Record<Privilege, boolean>>>;
 }
 
 // Vote Button Component
-const VoteButton = ({ type, count, isVoted, isLoading, onClick }: VoteButtonProps) => {
+const VoteButton = ({ type, count, isVoted, isLoading, disabledReason, onClick }: VoteButtonProps) => {
   const iconPath =
     type === 'upvote'
       ? isVoted
@@ -40,15 +45,16 @@ const VoteButton = ({ type, count, isVoted, isLoading, onClick }: VoteButtonProp
         : '/icons/downvote.svg';
 
   return (
-    <div className="flex-center gap-1.5">
+    <div className="flex-center gap-1.5" title={disabledReason}>
       <Image
         src={iconPath}
         width={18}
         height={18}
         alt={type}
-        className={`cursor-pointer ${isLoading && 'opacity-50'}`}
+        className={cn('cursor-pointer', isLoading && 'opacity-50', disabledReason && 'cursor-not-allowed opacity-50')}
         aria-label={type === 'upvote' ? 'Upvote' : 'Downvote'}
-        onClick={() => !isLoading && onClick()}
+        aria-disabled={!!disabledReason}
+        onClick={() => !isLoading && !disabledReason && onClick()}
       />
 
       <div className="flex-center background-light700_dark400 min-w-5 rounded-sm p-1">
@@ -58,7 +64,7 @@ const VoteButton = ({ type, count, isVoted, isLoading, onClick }: VoteButtonProp
   );
 };
 
-const Votes = ({ upvotes, downvotes, hasVotedPromise, targetId, targetType }: VotesProps) => {
+const Votes = ({ upvotes, downvotes, hasVotedPromise, privilegesPromise, targetId, targetType }: VotesProps) => {
   const { data: session } = useSession();
   const userId = session?.user?.id;
   const [isLoading, setIsLoading] = useState(false);
@@ -67,6 +73,10 @@ const Votes = ({ upvotes, downvotes, hasVotedPromise, targetId, targetType }: Vo
   const voteStatus = use(hasVotedPromise);
   const { hasUpvoted = false, hasDownvoted = false } = voteStatus.success ? voteStatus.data || {} : {};
 
+  // Signed-in users need the downvote privilege to cast a downvote, but can always take theirs back
+  const privileges = use(privilegesPromise);
+  const canDownvote = !userId || hasDownvoted || !!privileges.data?.downvote;
+
   const handleVote = async (voteType: VoteType): Promise<void> => {
     if (!userId) {
       toast({
@@ -131,6 +141,7 @@ const Votes = ({ upvotes, downvotes, hasVotedPromise, targetId, targetType }: Vo
         count={downvotes}
         isVoted={voteStatus.success && hasDownvoted}
         isLoading={isLoading}
+        disabledReason={canDownvote ? undefined : describePrivilege('downvote')}
         onClick={() => handleVote('downvote')}
       />
     </div>
@@ -0,0 +1,9 @@
+// AI answers a user can generate per UTC day, unless an admin sets a different limit for them.
+// AI_DAILY_LIMIT overrides the default for everyone.
+export const DEFAULT_AI_DAILY_LIMIT = 20;
+
+// Highest daily limit an admin can give a single user
+export const MAX_AI_DAILY_LIMIT = 1000;
+
+// How long a generated answer is served again for the same question and draft
+export const AI_ANSWER_CACHE_TTL_DAYS = 7;
@@ -0,0 +1,6 @@
+// Tags of cached data, revalidated when the content they list changes.
+// The sidebar links to these entries, so stale ones would lead to deleted pages.
+export const CACHE_TAGS = {
+  HOT_QUESTIONS: 'hot-questions',
+  POPULAR_TAGS: 'popular-tags',
+} as const;
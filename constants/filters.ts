@@ -3,6 +3,7 @@ export const HomePageFilters = [
   { name: 'Popular', value: 'popular' },
   { name: 'Unanswered', value: 'unanswered' },
   { name: 'Recommended', value: 'recommended' },
+  { name: 'Watched tags', value: 'watched' },
 ];
 
 export const AnswerFilters = [
@@ -31,3 +32,10 @@ export const UserFilters = [
   { name: 'Oldest', value: 'oldest' },
   { name: 'Popular', value: 'popular' },
 ];
+
+export const GlobalSearchFilters = [
+  { name: 'Question', value: 'question' },
+  { name: 'Answer', value: 'answer' },
+  { name: 'User', value: 'user' },
+  { name: 'Tag', value: 'tag' },
+];
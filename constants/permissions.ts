@@ -0,0 +1,18 @@
+export const ROLES = ['user', 'moderator', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Lowest role allowed to perform each privileged operation.
+// Roles are ordered, so admins can do everything moderators can.
+export const PERMISSIONS = {
+  deleteOthersContent: 'moderator',
+  rollbackOthersQuestions: 'moderator',
+  editTags: 'moderator',
+  mergeTags: 'moderator',
+  closeQuestions: 'moderator',
+  rebuildReputation: 'admin',
+  rebuildTagCooccurrence: 'admin',
+  manageAIQuotas: 'admin',
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof PERMISSIONS;
@@ -0,0 +1,11 @@
+// Reputation needed to unlock each privilege, following Stack Overflow's thresholds.
+// Moderators and admins have every privilege regardless of their reputation.
+export const PRIVILEGES = {
+  commentEverywhere: { reputation: 50, description: 'comment on posts by other users' },
+  downvote: { reputation: 125, description: 'downvote' },
+  createTags: { reputation: 1500, description: 'create new tags' },
+  editOthersPosts: { reputation: 2000, description: "edit other users' posts" },
+  editTagWikis: { reputation: 2000, description: 'edit tag wikis' },
+} as const satisfies Record<string, { reputation: number; description: string }>;
+
+export type Privilege = keyof typeof PRIVILEGES;
@@ -0,0 +1,12 @@
+import type { ReputationReason } from '@/database/reputation.model';
+
+// Points awarded (or taken) for each reputation event.
+// Reversals (removed votes, unaccepted answers, deleted posts) post the negated value.
+export const REPUTATION_POINTS: Record<Exclude<ReputationReason, 'post_deleted'>, number> = {
+  question_upvoted: 10,
+  question_downvoted: -2,
+  answer_upvoted: 10,
+  answer_downvoted: -2,
+  answer_accepted: 15,
+  accepted_answer: 2,
+};
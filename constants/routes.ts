@@ -7,9 +7,15 @@ interface Routes {
   JOBS: string;
   TAGS: string;
   TAG: (id: string) => string;
+  EDIT_TAG_WIKI: (id: string) => string;
+  TAG_REVISIONS: (id: string) => string;
   PROFILE: (id: string) => string;
+  EDIT_PROFILE: string;
   QUESTION: (id: string) => string;
+  EDIT_QUESTION: (id: string) => string;
+  QUESTION_REVISIONS: (id: string) => string;
   ASK_QUESTION: string;
+  SEARCH: string;
   SIGN_IN_WITH_OAUTH: string;
 }
 
@@ -22,9 +28,15 @@ const ROUTES: Routes = {
   JOBS: '/jobs',
   TAGS: '/tags',
   TAG: (id: string) => `/tags/${id}`,
+  EDIT_TAG_WIKI: (id: string) => `/tags/${id}/edit`,
+  TAG_REVISIONS: (id: string) => `/tags/${id}/revisions`,
   PROFILE: (id: string) => `/profile/${id}`,
+  EDIT_PROFILE: '/profile/edit',
   QUESTION: (id: string) => `/question/${id}`,
+  EDIT_QUESTION: (id: string) => `/question/${id}/edit`,
+  QUESTION_REVISIONS: (id: string) => `/question/${id}/revisions`,
   ASK_QUESTION: '/ask-question',
+  SEARCH: '/search',
   SIGN_IN_WITH_OAUTH: 'signin-with-oauth',
 };
 
@@ -0,0 +1,21 @@
+export const SEARCHABLE_TYPES = ['question', 'answer', 'user', 'tag'] as const;
+
+export type SearchableType = (typeof SEARCHABLE_TYPES)[number];
+
+// Hits shown per type in the navbar dropdown
+export const GLOBAL_SEARCH_PREVIEW_LIMIT = 3;
+
+// Headings used when results are grouped by type
+export const SEARCHABLE_TYPE_LABELS: Record<SearchableType, string> = {
+  question: 'Questions',
+  answer: 'Answers',
+  user: 'Users',
+  tag: 'Tags',
+};
+
+export const SEARCHABLE_TYPE_ICONS: Record<SearchableType, string> = {
+  question: '/icons/question.svg',
+  answer: '/icons/message.svg',
+  user: '/icons/user.svg',
+  tag: '/icons/tag.svg',
+};
@@ -51,3 +51,8 @@ export const EMPTY_USERS = {
   title: 'No Users Found',
   message: "You're ALONE. The only one here. More uses are coming soon!",
 };
+
+export const EMPTY_SEARCH_RESULTS = {
+  title: 'No Results Found',
+  message: 'Nothing matches your search. Try different keywords or another type.',
+};
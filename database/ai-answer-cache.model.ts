@@ -0,0 +1,31 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+export interface IAIAnswerCache {
+  // Hash of the question, its content, the user's draft and the model
+  key: string;
+  question: Types.ObjectId;
+  answer: string;
+  provider: string;
+  modelName: string;
+  expiresAt: Date;
+}
+
+export interface IAIAnswerCacheDoc extends IAIAnswerCache, Document {}
+const AIAnswerCacheSchema = new Schema<IAIAnswerCache>(
+  {
+    key: { type: String, required: true, unique: true },
+    question: { type: Schema.Types.ObjectId, ref: 'Question', required: true, index: true },
+    answer: { type: String, required: true },
+    provider: { type: String, required: true },
+    modelName: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+// MongoDB removes entries once they expire
+AIAnswerCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AIAnswerCache = models?.AIAnswerCache || model<IAIAnswerCache>('AIAnswerCache', AIAnswerCacheSchema);
+
+export default AIAnswerCache;
@@ -0,0 +1,25 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+export interface IAIUsage {
+  user: Types.ObjectId;
+  // UTC day the generations were made on, as YYYY-MM-DD
+  day: string;
+  // Number of AI answers generated that day, cached answers excluded
+  count: number;
+}
+
+export interface IAIUsageDoc extends IAIUsage, Document {}
+const AIUsageSchema = new Schema<IAIUsage>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    day: { type: String, required: true },
+    count: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+AIUsageSchema.index({ user: 1, day: 1 }, { unique: true });
+
+const AIUsage = models?.AIUsage || model<IAIUsage>('AIUsage', AIUsageSchema);
+
+export default AIUsage;
@@ -20,6 +20,8 @@ const AnswerSchema = new Schema<IAnswer>(
   { timestamps: true }
 );
 
+AnswerSchema.index({ content: 'text' }, { name: 'answer_text' });
+
 const Answer = models?.Answer || model<IAnswer>('Answer', AnswerSchema);
 
 export default Answer;
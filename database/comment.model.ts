@@ -0,0 +1,29 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+export interface IComment {
+  author: Types.ObjectId;
+  content: string;
+  targetId: Types.ObjectId;
+  targetType: 'question' | 'answer';
+  parent?: Types.ObjectId | null;
+  upvoters: Types.ObjectId[];
+}
+
+export interface ICommentDoc extends IComment, Document {}
+const CommentSchema = new Schema<IComment>(
+  {
+    author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    content: { type: String, required: true },
+    targetId: { type: Schema.Types.ObjectId, required: true },
+    targetType: { type: String, enum: ['question', 'answer'], required: true },
+    parent: { type: Schema.Types.ObjectId, ref: 'Comment', default: null },
+    upvoters: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+  },
+  { timestamps: true }
+);
+
+CommentSchema.index({ targetId: 1, targetType: 1, createdAt: 1 });
+
+const Comment = models?.Comment || model<IComment>('Comment', CommentSchema);
+
+export default Comment;
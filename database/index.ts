@@ -1,11 +1,39 @@
 import Account from './account.model';
+import AIAnswerCache from './ai-answer-cache.model';
+import AIUsage from './ai-usage.model';
 import Answer from './answer.model';
 import Collection from './collection.model';
+import Comment from './comment.model';
 import Interaction from './interaction.model';
 import Question from './question.model';
+import ReputationEvent from './reputation.model';
+import Revision from './revision.model';
+import TagCooccurrence from './tag-cooccurrence.model';
+import TagPreference from './tag-preference.model';
 import TagQuestion from './tag-question.model';
+import TagRevision from './tag-revision.model';
+import TagSynonym from './tag-synonym.model';
 import Tag from './tag.model';
 import User from './user.model';
 import Vote from './vote.model';
 
-export { Account, Answer, Collection, Interaction, Question, TagQuestion, Tag, User, Vote };
+export {
+  Account,
+  AIAnswerCache,
+  AIUsage,
+  Answer,
+  Collection,
+  Comment,
+  Interaction,
+  Question,
+  ReputationEvent,
+  Revision,
+  TagCooccurrence,
+  TagPreference,
+  TagQuestion,
+  TagRevision,
+  TagSynonym,
+  Tag,
+  User,
+  Vote,
+};
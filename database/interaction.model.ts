@@ -1,8 +1,10 @@
 import { model, models, Schema, Types, Document } from 'mongoose';
 
+export type InteractionAction = 'view' | 'ask' | 'answer' | 'upvote' | 'downvote' | 'save';
+
 export interface IInteraction {
   user: Types.ObjectId;
-  action: string;
+  action: InteractionAction;
   actionId: Types.ObjectId;
   actionType: 'question' | 'answer';
 }
@@ -10,14 +12,17 @@ export interface IInteraction {
 export interface IInteractionDoc extends IInteraction, Document {}
 const InteractionSchema = new Schema<IInteraction>(
   {
-    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
-    action: { type: String, required: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    action: { type: String, enum: ['view', 'ask', 'answer', 'upvote', 'downvote', 'save'], required: true },
     actionId: { type: Schema.Types.ObjectId, required: true },
     actionType: { type: String, enum: ['question', 'answer'], required: true },
   },
   { timestamps: true }
 );
 
+InteractionSchema.index({ user: 1, action: 1, actionId: 1, actionType: 1 }, { unique: true });
+InteractionSchema.index({ user: 1, actionType: 1, updatedAt: -1 });
+
 const Interaction = models?.Interaction || model<IInteraction>('Interaction', InteractionSchema);
 
 export default Interaction;
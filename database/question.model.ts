@@ -9,6 +9,10 @@ export interface IQuestion {
   downvotes: number;
   answers: number;
   author: Types.ObjectId;
+  acceptedAnswer?: Types.ObjectId | null;
+  closedAt?: Date | null;
+  closedBy?: Types.ObjectId | null;
+  closeReason?: string;
 }
 
 export interface IQuestionDoc extends IQuestion, Document {}
@@ -22,10 +26,19 @@ const QuestionSchema = new Schema<IQuestion>(
     downvotes: { type: Number, default: 0 },
     answers: { type: Number, default: 0 },
     author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    acceptedAnswer: { type: Schema.Types.ObjectId, ref: 'Answer', default: null },
+    closedAt: { type: Date, default: null },
+    closedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    closeReason: { type: String },
   },
   { timestamps: true }
 );
 
+// Full-text search over questions, where title matches weigh more than body matches
+QuestionSchema.index({ title: 'text', content: 'text' }, { weights: { title: 5, content: 1 }, name: 'question_text' });
+// Lets tag pages and tag-based search find questions without a collection scan
+QuestionSchema.index({ tags: 1 });
+
 const Question = models?.Question || model<IQuestion>('Question', QuestionSchema);
 
 export default Question;
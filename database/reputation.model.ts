@@ -0,0 +1,48 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+export type ReputationReason =
+  | 'question_upvoted'
+  | 'question_downvoted'
+  | 'answer_upvoted'
+  | 'answer_downvoted'
+  | 'answer_accepted'
+  | 'accepted_answer'
+  | 'post_deleted';
+
+export interface IReputationEvent {
+  user: Types.ObjectId;
+  actor?: Types.ObjectId;
+  reason: ReputationReason;
+  points: number;
+  targetId: Types.ObjectId;
+  targetType: 'question' | 'answer';
+}
+
+export interface IReputationEventDoc extends IReputationEvent, Document {}
+const ReputationEventSchema = new Schema<IReputationEvent>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    actor: { type: Schema.Types.ObjectId, ref: 'User' },
+    reason: {
+      type: String,
+      enum: [
+        'question_upvoted',
+        'question_downvoted',
+        'answer_upvoted',
+        'answer_downvoted',
+        'answer_accepted',
+        'accepted_answer',
+        'post_deleted',
+      ],
+      required: true,
+    },
+    points: { type: Number, required: true },
+    targetId: { type: Schema.Types.ObjectId, required: true, index: true },
+    targetType: { type: String, enum: ['question', 'answer'], required: true },
+  },
+  { timestamps: true }
+);
+
+const ReputationEvent = models?.ReputationEvent || model<IReputationEvent>('ReputationEvent', ReputationEventSchema);
+
+export default ReputationEvent;
@@ -0,0 +1,31 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+export interface IRevision {
+  question: Types.ObjectId;
+  author: Types.ObjectId;
+  revision: number;
+  title: string;
+  content: string;
+  tags: string[];
+  summary?: string;
+}
+
+export interface IRevisionDoc extends IRevision, Document {}
+const RevisionSchema = new Schema<IRevision>(
+  {
+    question: { type: Schema.Types.ObjectId, ref: 'Question', required: true },
+    author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    revision: { type: Number, required: true },
+    title: { type: String, required: true },
+    content: { type: String, required: true },
+    tags: [{ type: String }],
+    summary: { type: String },
+  },
+  { timestamps: true }
+);
+
+RevisionSchema.index({ question: 1, revision: 1 }, { unique: true });
+
+const Revision = models?.Revision || model<IRevision>('Revision', RevisionSchema);
+
+export default Revision;
@@ -0,0 +1,26 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+export interface ITagCooccurrence {
+  tag: Types.ObjectId;
+  related: Types.ObjectId;
+  // Number of questions carrying both tags
+  count: number;
+}
+
+export interface ITagCooccurrenceDoc extends ITagCooccurrence, Document {}
+const TagCooccurrenceSchema = new Schema<ITagCooccurrence>(
+  {
+    tag: { type: Schema.Types.ObjectId, ref: 'Tag', required: true },
+    related: { type: Schema.Types.ObjectId, ref: 'Tag', required: true },
+    count: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+// Every pair is stored in both directions, so related tags are a lookup on `tag`
+TagCooccurrenceSchema.index({ tag: 1, related: 1 }, { unique: true });
+TagCooccurrenceSchema.index({ tag: 1, count: -1 });
+
+const TagCooccurrence = models?.TagCooccurrence || model<ITagCooccurrence>('TagCooccurrence', TagCooccurrenceSchema);
+
+export default TagCooccurrence;
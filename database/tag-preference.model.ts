@@ -0,0 +1,28 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+// Watched tags are boosted in the home feed; ignored tags are dimmed or hidden
+export type TagPreferenceKind = 'watched' | 'ignored';
+
+export interface ITagPreference {
+  user: Types.ObjectId;
+  tag: Types.ObjectId;
+  preference: TagPreferenceKind;
+}
+
+export interface ITagPreferenceDoc extends ITagPreference, Document {}
+const TagPreferenceSchema = new Schema<ITagPreference>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    tag: { type: Schema.Types.ObjectId, ref: 'Tag', required: true },
+    preference: { type: String, enum: ['watched', 'ignored'], required: true },
+  },
+  { timestamps: true }
+);
+
+// A tag is either watched or ignored by a user, never both
+TagPreferenceSchema.index({ user: 1, tag: 1 }, { unique: true });
+TagPreferenceSchema.index({ tag: 1 });
+
+const TagPreference = models?.TagPreference || model<ITagPreference>('TagPreference', TagPreferenceSchema);
+
+export default TagPreference;
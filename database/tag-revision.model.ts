@@ -0,0 +1,29 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+export interface ITagRevision {
+  tag: Types.ObjectId;
+  author: Types.ObjectId;
+  revision: number;
+  excerpt: string;
+  wiki: string;
+  summary?: string;
+}
+
+export interface ITagRevisionDoc extends ITagRevision, Document {}
+const TagRevisionSchema = new Schema<ITagRevision>(
+  {
+    tag: { type: Schema.Types.ObjectId, ref: 'Tag', required: true },
+    author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    revision: { type: Number, required: true },
+    excerpt: { type: String, default: '' },
+    wiki: { type: String, default: '' },
+    summary: { type: String },
+  },
+  { timestamps: true }
+);
+
+TagRevisionSchema.index({ tag: 1, revision: 1 }, { unique: true });
+
+const TagRevision = models?.TagRevision || model<ITagRevision>('TagRevision', TagRevisionSchema);
+
+export default TagRevision;
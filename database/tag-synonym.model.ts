@@ -0,0 +1,29 @@
+import { model, models, Schema, Types, Document } from 'mongoose';
+
+export interface ITagSynonym {
+  // Alias, stored in lowercase
+  name: string;
+  // Canonical tag the alias stands for
+  tag: Types.ObjectId;
+  // Tag that was merged away under this name, so its old URL can redirect
+  mergedTag?: Types.ObjectId;
+  createdBy: Types.ObjectId;
+}
+
+export interface ITagSynonymDoc extends ITagSynonym, Document {}
+const TagSynonymSchema = new Schema<ITagSynonym>(
+  {
+    name: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    tag: { type: Schema.Types.ObjectId, ref: 'Tag', required: true },
+    mergedTag: { type: Schema.Types.ObjectId },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  { timestamps: true }
+);
+
+TagSynonymSchema.index({ tag: 1 });
+TagSynonymSchema.index({ mergedTag: 1 }, { sparse: true });
+
+const TagSynonym = models?.TagSynonym || model<ITagSynonym>('TagSynonym', TagSynonymSchema);
+
+export default TagSynonym;
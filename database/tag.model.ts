@@ -3,6 +3,9 @@ import { model, models, Schema, Document } from 'mongoose';
 export interface ITag {
   name: string;
   questions: number;
+  // Short summary shown on tag cards, and the full markdown tag wiki
+  excerpt?: string;
+  wiki?: string;
 }
 
 export interface ITagDoc extends ITag, Document {}
@@ -10,10 +13,14 @@ const TagSchema = new Schema<ITag>(
   {
     name: { type: String, required: true, unique: true },
     questions: { type: Number, default: 0 },
+    excerpt: { type: String, default: '' },
+    wiki: { type: String, default: '' },
   },
   { timestamps: true }
 );
 
+TagSchema.index({ name: 'text' }, { name: 'tag_text' });
+
 const Tag = models?.Tag || model<ITag>('Tag', TagSchema);
 
 export default Tag;
@@ -1,5 +1,7 @@
 import { model, models, Schema, Document } from 'mongoose';
 
+import { Role, ROLES } from '@/constants/permissions';
+
 export interface IUser {
   name: string;
   username: string;
@@ -9,6 +11,11 @@ export interface IUser {
   location?: string;
   portfolio?: string;
   reputation?: number;
+  role?: Role;
+  // Hide questions with ignored tags from the home feed instead of dimming them
+  hideIgnoredTags?: boolean;
+  // Daily AI answer limit set by an admin, the default limit applies when unset
+  aiDailyLimit?: number | null;
 }
 
 export interface IUserDoc extends IUser, Document {}
@@ -22,10 +29,15 @@ const UserSchema = new Schema<IUser>(
     location: { type: String },
     portfolio: { type: String },
     reputation: { type: Number, default: 0 },
+    role: { type: String, enum: ROLES, default: 'user' },
+    hideIgnoredTags: { type: Boolean, default: false },
+    aiDailyLimit: { type: Number, default: null },
   },
   { timestamps: true }
 );
 
+UserSchema.index({ name: 'text', username: 'text' }, { name: 'user_text' });
+
 const User = models?.User || model<IUser>('User', UserSchema);
 
 export default User;
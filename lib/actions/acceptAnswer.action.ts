@@ -0,0 +1,166 @@
+'use server';
+
+import mongoose, { ClientSession } from 'mongoose';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+import ROUTES from '@/constants/routes';
+import { Answer, Question } from '@/database';
+import { IAnswerDoc } from '@/database/answer.model';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { ForbiddenError, NotFoundError } from '../http-errors';
+import { recordReputationEvents, reputationEvent } from '../reputation';
+import { AcceptAnswerSchema } from '../validations';
+
+/**
+ * Marks an answer as the accepted solution of its question.
+ * Replaces any previously accepted answer, since a question can only have one.
+ * Only the author of the question is allowed to accept answers.
+ * @param params - Object containing the ID of the answer to accept.
+ * @returns Promise resolving to either a success response or an error response.
+ */
+export async function acceptAnswer(params: AcceptAnswerParams): Promise<ActionResponse> {
+  const validationResult = await validateInput(params);
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { answerId } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { answer, question } = await findAnswerAndQuestion(answerId, userId, session);
+
+    if (question.acceptedAnswer?.toString() !== answerId) {
+      // Take back the reputation of the previously accepted answer
+      if (question.acceptedAnswer) {
+        const previous = await Answer.findById(question.acceptedAnswer).session(session);
+        if (previous) await recordAcceptanceReputation(previous, question.author.toString(), -1, session);
+      }
+
+      question.acceptedAnswer = answer._id;
+      await question.save({ session });
+
+      await recordAcceptanceReputation(answer, question.author.toString(), 1, session);
+    }
+
+    await session.commitTransaction();
+    revalidatePath(ROUTES.QUESTION(question._id.toString()));
+
+    return { success: true };
+  } catch (error) {
+    await session.abortTransaction();
+    return handleError(error) as ErrorResponse;
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Removes the accepted mark from an answer.
+ * Only the author of the question is allowed to unaccept answers.
+ * @param params - Object containing the ID of the currently accepted answer.
+ * @returns Promise resolving to either a success response or an error response.
+ */
+export async function unacceptAnswer(params: AcceptAnswerParams): Promise<ActionResponse> {
+  const validationResult = await validateInput(params);
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { answerId } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { answer, question } = await findAnswerAndQuestion(answerId, userId, session);
+
+    if (question.acceptedAnswer?.toString() !== answerId) {
+      throw new Error('This answer is not the accepted answer');
+    }
+
+    question.acceptedAnswer = null;
+    await question.save({ session });
+
+    await recordAcceptanceReputation(answer, question.author.toString(), -1, session);
+
+    await session.commitTransaction();
+    revalidatePath(ROUTES.QUESTION(question._id.toString()));
+
+    return { success: true };
+  } catch (error) {
+    await session.abortTransaction();
+    return handleError(error) as ErrorResponse;
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Validates the input parameters and user authorization.
+ * @param params - Parameters to validate.
+ * @returns Validation result or error.
+ */
+async function validateInput<T>(params: T) {
+  return action({
+    params,
+    schema: AcceptAnswerSchema as z.ZodSchema,
+    authorize: true,
+  });
+}
+
+/**
+ * Loads an answer together with its question and makes sure
+ * the current user is the author of that question.
+ * @param answerId - ID of the answer.
+ * @param userId - ID of the current user.
+ * @param session - Mongoose session.
+ * @returns The answer and question documents.
+ */
+async function findAnswerAndQuestion(answerId: string, userId: string | undefined, session: ClientSession) {
+  const answer = await Answer.findById(answerId).session(session);
+  if (!answer) throw new NotFoundError('Answer');
+
+  const question = await Question.findById(answer.question).session(session);
+  if (!question) throw new NotFoundError('Question');
+
+  if (question.author.toString() !== userId) {
+    throw new ForbiddenError('Only the author of the question can accept an answer');
+  }
+
+  return { answer, question };
+}
+
+/**
+ * Awards (or takes back) the reputation for an accepted answer:
+ * the answer author earns `answer_accepted`, the question author earns `accepted_answer`.
+ * Accepting your own answer earns nothing, since each event names the other author as actor.
+ * @param answer - The accepted answer.
+ * @param questionAuthorId - ID of the question author.
+ * @param direction - 1 when the answer is accepted, -1 when the acceptance is removed.
+ * @param session - Mongoose session.
+ */
+async function recordAcceptanceReputation(
+  answer: IAnswerDoc,
+  questionAuthorId: string,
+  direction: 1 | -1,
+  session: ClientSession
+): Promise<void> {
+  const answerAuthorId = answer.author.toString();
+  const target = { targetId: answer.id as string, targetType: 'answer' as const };
+
+  await recordReputationEvents(
+    [
+      reputationEvent('answer_accepted', { user: answerAuthorId, actor: questionAuthorId, ...target }, direction),
+      reputationEvent('accepted_answer', { user: questionAuthorId, actor: answerAuthorId, ...target }, direction),
+    ],
+    session
+  );
+}
@@ -0,0 +1,102 @@
+'use server';
+
+import { ZodSchema } from 'zod';
+
+import { auth } from '@/auth';
+import { User } from '@/database';
+
+import { loadAIQuota } from '../ai-usage';
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { NotFoundError } from '../http-errors';
+import { GetUserSchema, SetAIDailyLimitSchema } from '../validations';
+
+/**
+ * Retrieves the current user's AI usage for today
+ * Signed-out visitors have no quota.
+ *
+ * Example:
+ * const { data } = await getAIQuota();
+ * → { used: 3, limit: 20, remaining: 17, isCustomLimit: false, resetsAt: "2025-01-02T00:00:00.000Z" }
+ */
+export async function getAIQuota(): Promise<ActionResponse<AIQuota | null>> {
+  const validationResult = await action({});
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) return { success: true, data: null };
+
+    const quota = await loadAIQuota(userId);
+
+    return { success: true, data: JSON.parse(JSON.stringify(quota)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Retrieves another user's AI usage for today
+ * Only available to admins.
+ *
+ * Example:
+ * const { data } = await getUserAIQuota({ userId: "123" });
+ * → { used: 20, limit: 20, remaining: 0, isCustomLimit: false, resetsAt: "2025-01-02T00:00:00.000Z" }
+ */
+export async function getUserAIQuota(params: GetUserParams): Promise<ActionResponse<AIQuota>> {
+  const validationResult = await action({
+    params,
+    schema: GetUserSchema as ZodSchema,
+    permission: 'manageAIQuotas',
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { userId }: GetUserParams = validationResult.params!;
+
+  try {
+    if (!(await User.exists({ _id: userId }))) throw new NotFoundError('User');
+
+    const quota = await loadAIQuota(userId);
+
+    return { success: true, data: JSON.parse(JSON.stringify(quota)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Sets how many AI answers a user may generate per day
+ * A null limit goes back to the default. Only available to admins.
+ *
+ * Example:
+ * await setAIDailyLimit({ userId: "123", limit: 100 });
+ * → { used: 20, limit: 100, remaining: 80, isCustomLimit: true, ... }
+ */
+export async function setAIDailyLimit(params: SetAIDailyLimitParams): Promise<ActionResponse<AIQuota>> {
+  const validationResult = await action({
+    params,
+    schema: SetAIDailyLimitSchema as ZodSchema,
+    permission: 'manageAIQuotas',
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { userId, limit }: SetAIDailyLimitParams = validationResult.params!;
+
+  try {
+    const user = await User.findByIdAndUpdate(userId, { aiDailyLimit: limit });
+    if (!user) throw new NotFoundError('User');
+
+    const quota = await loadAIQuota(userId);
+
+    return { success: true, data: JSON.parse(JSON.stringify(quota)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
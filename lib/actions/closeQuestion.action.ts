@@ -0,0 +1,82 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { ZodSchema } from 'zod';
+
+import ROUTES from '@/constants/routes';
+import { Question } from '@/database';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { NotFoundError } from '../http-errors';
+import { CloseQuestionSchema, ReopenQuestionSchema } from '../validations';
+
+/**
+ * Closes a question so it no longer accepts new answers
+ * Only moderators are allowed to close questions.
+ *
+ * @param params - ID of the question and the reason it is closed
+ *
+ * Example:
+ * await closeQuestion({ questionId: "123", reason: "Duplicate of an existing question" });
+ */
+export async function closeQuestion(params: CloseQuestionParams): Promise<ActionResponse> {
+  const validationResult = await action({
+    params,
+    schema: CloseQuestionSchema as ZodSchema,
+    permission: 'closeQuestions',
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { questionId, reason } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  try {
+    const question = await Question.findByIdAndUpdate(questionId, {
+      closedAt: new Date(),
+      closedBy: userId,
+      closeReason: reason.trim(),
+    });
+    if (!question) throw new NotFoundError('Question');
+
+    revalidatePath(ROUTES.QUESTION(questionId));
+
+    return { success: true };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Reopens a closed question so it accepts answers again
+ * Only moderators are allowed to reopen questions.
+ */
+export async function reopenQuestion(params: ReopenQuestionParams): Promise<ActionResponse> {
+  const validationResult = await action({
+    params,
+    schema: ReopenQuestionSchema as ZodSchema,
+    permission: 'closeQuestions',
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { questionId } = validationResult.params!;
+
+  try {
+    const question = await Question.findByIdAndUpdate(questionId, {
+      closedAt: null,
+      closedBy: null,
+      $unset: { closeReason: 1 },
+    });
+    if (!question) throw new NotFoundError('Question');
+
+    revalidatePath(ROUTES.QUESTION(questionId));
+
+    return { success: true };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
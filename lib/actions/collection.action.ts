@@ -95,6 +95,7 @@ import { Collection, Question } from '@/database';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
+import { recordInteraction } from '../interactions';
 import { CollectionBaseSchema, PaginatedSearchParamsSchema } from '../validations';
 
 /**
@@ -155,6 +156,7 @@ async function addToCollection(questionId: string, userId: string) {
     question: questionId,
     author: userId,
   });
+  await recordInteraction(userId, 'save', questionId);
 
   revalidatePath(ROUTES.QUESTION(questionId));
 
@@ -0,0 +1,308 @@
+'use server';
+
+import { Types } from 'mongoose';
+import { revalidatePath } from 'next/cache';
+import { ZodSchema } from 'zod';
+
+import { auth } from '@/auth';
+import ROUTES from '@/constants/routes';
+import { Answer, Comment, Question } from '@/database';
+import { ICommentDoc } from '@/database/comment.model';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { ForbiddenError, NotFoundError } from '../http-errors';
+import { getSessionRole, hasPermission } from '../permissions';
+import { assertPrivilege } from '../privileges';
+import { CommentIdSchema, CreateCommentSchema, EditCommentSchema, GetCommentsSchema } from '../validations';
+
+type TargetType = 'question' | 'answer';
+
+interface PopulatedComment extends Omit<ICommentDoc, 'author'> {
+  author: Author;
+  createdAt: Date;
+}
+
+/**
+ * Creates a comment on a question or an answer
+ *
+ * Replies are limited to a single level: replying to a reply attaches
+ * the new comment to the top-level comment of that thread.
+ *
+ * Everyone can comment on their own posts and on answers to their own
+ * questions. Commenting anywhere else needs the commentEverywhere privilege.
+ *
+ * @param params - Target, content and optional parent comment
+ * @returns The created comment
+ *
+ * Example:
+ * await createComment({ targetId: "123", targetType: "answer", content: "Which version are you on?" });
+ */
+export async function createComment(params: CreateCommentParams): Promise<ActionResponse<PostComment>> {
+  const validationResult = await action({
+    params,
+    schema: CreateCommentSchema as ZodSchema,
+    authorize: true,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { targetId, targetType, content, parentId } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  try {
+    const questionId = await findQuestionIdForTarget(targetId, targetType);
+
+    if (!(await isOwnThread(targetId, targetType, questionId, userId))) {
+      await assertPrivilege(validationResult.session, 'commentEverywhere');
+    }
+
+    let parent: Types.ObjectId | null = null;
+    if (parentId) {
+      const parentComment = await Comment.findOne({ _id: parentId, targetId, targetType });
+      if (!parentComment) throw new NotFoundError('Comment');
+
+      parent = parentComment.parent ?? parentComment._id;
+    }
+
+    const comment = await Comment.create({ author: userId, content: content.trim(), targetId, targetType, parent });
+
+    revalidatePath(ROUTES.QUESTION(questionId));
+
+    return { success: true, data: JSON.parse(JSON.stringify(comment)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Updates the content of a comment
+ * Only the author of the comment is allowed to edit it.
+ */
+export async function editComment(params: EditCommentParams): Promise<ActionResponse> {
+  const validationResult = await action({
+    params,
+    schema: EditCommentSchema as ZodSchema,
+    authorize: true,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { commentId, content } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  try {
+    const comment = await findOwnComment(commentId, userId, 'You are not allowed to edit this comment');
+
+    comment.content = content.trim();
+    await comment.save();
+
+    await revalidateCommentTarget(comment);
+
+    return { success: true };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Deletes a comment together with its replies
+ * Authors can delete their own comments, moderators any comment.
+ */
+export async function deleteComment(params: CommentIdParams): Promise<ActionResponse> {
+  const validationResult = await action({
+    params,
+    schema: CommentIdSchema as ZodSchema,
+    authorize: true,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { commentId } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+  const canDeleteAny = hasPermission(getSessionRole(validationResult.session), 'deleteOthersContent');
+
+  try {
+    const comment = canDeleteAny
+      ? await findComment(commentId)
+      : await findOwnComment(commentId, userId, 'You are not allowed to delete this comment');
+
+    await Comment.deleteMany({ $or: [{ _id: comment._id }, { parent: comment._id }] });
+
+    await revalidateCommentTarget(comment);
+
+    return { success: true };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Adds or removes the current user's upvote on a comment
+ *
+ * Comment upvotes are stored on the comment itself, so they never affect
+ * the score of the question or answer, nor anyone's reputation.
+ *
+ * @returns Whether the comment is now upvoted and its upvote count
+ */
+export async function toggleCommentUpvote(
+  params: CommentIdParams
+): Promise<ActionResponse<{ upvoted: boolean; upvotes: number }>> {
+  const validationResult = await action({
+    params,
+    schema: CommentIdSchema as ZodSchema,
+    authorize: true,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { commentId } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  try {
+    const comment = await findComment(commentId);
+    if (comment.author.toString() === userId) {
+      throw new ForbiddenError('You cannot upvote your own comment');
+    }
+
+    const upvoted = !comment.upvoters.some((id: Types.ObjectId) => id.toString() === userId);
+
+    const updated = await Comment.findByIdAndUpdate(
+      commentId,
+      upvoted ? { $addToSet: { upvoters: userId } } : { $pull: { upvoters: userId } },
+      { new: true }
+    );
+
+    await revalidateCommentTarget(comment);
+
+    return { success: true, data: { upvoted, upvotes: updated?.upvoters.length ?? 0 } };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Retrieves the comments of a question or an answer as threads
+ * Top-level comments come oldest first, each with its replies nested below it.
+ *
+ * Example:
+ * await getComments({ targetId: "123", targetType: "question" });
+ * → [{ content: "...", replies: [{ content: "...", replies: [] }] }]
+ */
+export async function getComments(params: GetCommentsParams): Promise<ActionResponse<PostComment[]>> {
+  const validationResult = await action({
+    params,
+    schema: GetCommentsSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { targetId, targetType } = validationResult.params!;
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    const comments = await Comment.find({ targetId, targetType })
+      .sort({ createdAt: 1 })
+      .populate('author', '_id name image')
+      .lean<PopulatedComment[]>();
+
+    return { success: true, data: JSON.parse(JSON.stringify(buildThreads(comments, userId))) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Groups replies under their top-level comment
+ * The list of upvoters is replaced by a count and the current user's upvote state.
+ */
+function buildThreads(comments: PopulatedComment[], userId?: string): PostComment[] {
+  const threads = new Map<string, PostComment>();
+  const replies: PostComment[] = [];
+
+  for (const { _id, author, content, parent, upvoters, createdAt } of comments) {
+    const comment: PostComment = {
+      _id: String(_id),
+      author,
+      content,
+      parent: parent ? parent.toString() : null,
+      upvotes: upvoters.length,
+      hasUpvoted: upvoters.some(id => id.toString() === userId),
+      createdAt,
+      replies: [],
+    };
+
+    if (comment.parent) replies.push(comment);
+    else threads.set(comment._id, comment);
+  }
+
+  for (const reply of replies) {
+    threads.get(reply.parent!)?.replies.push(reply);
+  }
+
+  return Array.from(threads.values());
+}
+
+async function findComment(commentId: string) {
+  const comment = await Comment.findById(commentId);
+  if (!comment) throw new NotFoundError('Comment');
+
+  return comment;
+}
+
+/**
+ * Loads a comment and makes sure the current user wrote it
+ */
+async function findOwnComment(commentId: string, userId: string | undefined, forbiddenMessage: string) {
+  const comment = await findComment(commentId);
+  if (comment.author.toString() !== userId) throw new ForbiddenError(forbiddenMessage);
+
+  return comment;
+}
+
+/**
+ * Resolves the question a comment target belongs to
+ * @returns ID of the question page the comment is shown on
+ */
+async function findQuestionIdForTarget(targetId: string, targetType: TargetType): Promise<string> {
+  if (targetType === 'question') {
+    const question = await Question.exists({ _id: targetId });
+    if (!question) throw new NotFoundError('Question');
+    return targetId;
+  }
+
+  const answer = await Answer.findById(targetId, { question: 1 });
+  if (!answer) throw new NotFoundError('Answer');
+  return answer.question.toString();
+}
+
+/**
+ * Checks whether the user wrote the commented post, or the question it answers
+ */
+async function isOwnThread(
+  targetId: string,
+  targetType: TargetType,
+  questionId: string,
+  userId: string | undefined
+): Promise<boolean> {
+  if (!userId) return false;
+
+  const [question, answer] = await Promise.all([
+    Question.exists({ _id: questionId, author: userId }),
+    targetType === 'answer' ? Answer.exists({ _id: targetId, author: userId }) : null,
+  ]);
+
+  return !!question || !!answer;
+}
+
+async function revalidateCommentTarget(comment: ICommentDoc): Promise<void> {
+  const questionId = await findQuestionIdForTarget(comment.targetId.toString(), comment.targetType).catch(() => null);
+  if (questionId) revalidatePath(ROUTES.QUESTION(questionId));
+}
@@ -9,6 +9,8 @@ import Answer, { IAnswerDoc } from '@/database/answer.model';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
+import { ForbiddenError } from '../http-errors';
+import { recordInteraction } from '../interactions';
 import { AnswerServerSchema } from '../validations';
 
 /**
@@ -46,6 +48,7 @@ export async function createAnswer(params: CreateAnswerParams): Promise<ActionRe
 
     // Step 5: Commit transaction and revalidate page
     await session.commitTransaction();
+    await recordInteraction(userId, 'answer', questionId);
     revalidatePath(ROUTES.QUESTION(questionId));
 
     return {
@@ -96,6 +99,9 @@ async function createAnswerAndUpdateQuestion({
   if (!question) {
     throw new Error('Question not found');
   }
+  if (question.closedAt) {
+    throw new ForbiddenError('This question is closed and no longer accepts answers');
+  }
 
   // Create the answer
   const [newAnswer] = await Answer.create(
@@ -1,14 +1,23 @@
 'use server';
 
 import mongoose from 'mongoose';
+import { revalidateTag } from 'next/cache';
+import { Session } from 'next-auth';
 import { z } from 'zod';
 
+import { CACHE_TAGS } from '@/constants/cache';
 import Question from '@/database/question.model';
 import TagQuestion from '@/database/tag-question.model';
 import Tag from '@/database/tag.model';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
+import { recordInteraction } from '../interactions';
+import { assertCanUseTag } from '../privileges';
+import { recordQuestionRevision } from '../revisions';
+import { updateTagCooccurrence } from '../tag-cooccurrence';
+import { resolveTagNames } from '../tags';
+import { escapeRegExp } from '../utils';
 import { AskQuestionSchema } from '../validations';
 
 /**
@@ -19,8 +28,10 @@ import { AskQuestionSchema } from '../validations';
  * The function follows these main steps:
  * 1. Validates the input parameters
  * 2. Creates the question document
- * 3. Creates/updates tags and their relationships with the question
- * 4. All operations are wrapped in a transaction for data consistency
+ * 3. Creates/updates tags and their relationships with the question, mapping
+ *    tag synonyms such as "js" to their canonical tag
+ * 4. Stores the question as its first revision
+ * 5. All operations are wrapped in a transaction for data consistency
  */
 export async function createQuestion(params: CreateQuestionParams): Promise<ActionResponse | ActionResponse<Question>> {
   // First, validate all input parameters against the schema
@@ -30,7 +41,7 @@ export async function createQuestion(params: CreateQuestionParams): Promise<Acti
   }
 
   // Extract validated data and user ID from the validation result
-  const { title, content, tags } = validationResult.params!;
+  const { title, content, tags: requestedTags } = validationResult.params!;
   const userId = validationResult?.session?.user?.id;
   if (!userId) throw new Error('User not authenticated');
 
@@ -42,15 +53,25 @@ export async function createQuestion(params: CreateQuestionParams): Promise<Acti
   try {
     // Step 1: Create the main question document
     const question = await createQuestionDocument(title, content, userId, session);
+    const tags = await resolveTagNames(requestedTags, session);
 
     // Step 2: Process tags and create relationships
-    const tagIds = await createTagRelations(tags, question._id, session);
+    const tagIds = await createTagRelations(tags, question._id, validationResult.session, session);
 
     // Step 3: Update the question document with the tag references
     await updateQuestionTags(question._id, tagIds, session);
+    await updateTagCooccurrence([], tagIds, session);
+
+    // Step 4: Store the original version as revision 1
+    await recordQuestionRevision({ questionId: question._id, authorId: userId, title, content, tags }, session);
 
     // If all operations succeed, commit the transaction
     await session.commitTransaction();
+    await recordInteraction(userId, 'ask', question._id);
+
+    // The new question can change the popular tags and the hot questions
+    revalidateTag(CACHE_TAGS.POPULAR_TAGS);
+    revalidateTag(CACHE_TAGS.HOT_QUESTIONS);
 
     // Return success response with the created question data
     return { success: true, data: JSON.parse(JSON.stringify(question)) };
@@ -97,6 +118,7 @@ async function createQuestionDocument(title: string, content: string, userId: st
  * Manages the creation of relationships between the question and its tags
  * @param tags - Array of tag names
  * @param questionId - ID of the created question
+ * @param authSession - Session of the asking user, whose privileges decide whether new tags may be created
  * @param session - MongoDB session for transaction management
  * @returns Array of created/updated tag IDs
  *
@@ -107,10 +129,11 @@ async function createQuestionDocument(title: string, content: string, userId: st
 async function createTagRelations(
   tags: string[],
   questionId: mongoose.Types.ObjectId,
+  authSession: Session | null,
   session: mongoose.ClientSession
 ) {
   // Process all tags in parallel and get their documents
-  const tagResults = await Promise.all(tags.map(tag => processTag(tag, session)));
+  const tagResults = await Promise.all(tags.map(tag => processTag(tag, authSession, session)));
   // Extract just the IDs from the tag documents
   const tagIds = tagResults.map(tag => tag._id);
 
@@ -129,6 +152,7 @@ async function createTagRelations(
 /**
  * Processes a single tag - either creates new or updates existing
  * @param tag - Tag name to process
+ * @param authSession - Session of the asking user
  * @param session - MongoDB session for transaction management
  * @returns Tag document (either new or updated)
  *
@@ -136,10 +160,13 @@ async function createTagRelations(
  * - Case-insensitive tag matching using regex
  * - Automatically increments the questions count for the tag
  * - Creates new tag if it doesn't exist (upsert operation)
+ * - Only users with the createTags privilege may create new tags
  */
-async function processTag(tag: string, session: mongoose.ClientSession) {
+async function processTag(tag: string, authSession: Session | null, session: mongoose.ClientSession) {
+  await assertCanUseTag(authSession, tag, session);
+
   return Tag.findOneAndUpdate(
-    { name: { $regex: new RegExp(`^${tag}$`, 'i') } }, // Case-insensitive search
+    { name: { $regex: new RegExp(`^${escapeRegExp(tag)}$`, 'i') } }, // Case-insensitive search
     {
       $setOnInsert: { name: tag }, // Only set name if creating new tag
       $inc: { questions: 1 }, // Increment questions count
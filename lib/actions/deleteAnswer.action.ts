@@ -0,0 +1,104 @@
+'use server';
+
+import mongoose from 'mongoose';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+import ROUTES from '@/constants/routes';
+import { Answer, Comment, Interaction, Question, Vote } from '@/database';
+import { IAnswerDoc } from '@/database/answer.model';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { ForbiddenError, NotFoundError } from '../http-errors';
+import { getSessionRole, hasPermission } from '../permissions';
+import { reverseReputationForTargets } from '../reputation';
+import { DeleteAnswerSchema } from '../validations';
+
+/**
+ * Deletes an answer, the votes, comments and interactions on it, and updates the question's answer count.
+ * Reputation earned through the answer is reversed.
+ * Authors can delete their own answers, moderators any answer.
+ * @param params - Object containing the answer ID.
+ * @returns Promise resolving to either a success response or an error response.
+ */
+export async function deleteAnswer(params: DeleteAnswerParams): Promise<ActionResponse> {
+  // Step 1: Validate input parameters and user authorization
+  const validationResult = await validateInput(params);
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { answerId } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+  const role = getSessionRole(validationResult.session);
+
+  // Step 2: Perform database operations within a transaction
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const answer = await Answer.findById(answerId).session(session);
+    if (!answer) throw new NotFoundError('Answer');
+    if (answer.author.toString() !== userId && !hasPermission(role, 'deleteOthersContent')) {
+      throw new ForbiddenError('You are not allowed to delete this answer');
+    }
+
+    // Step 3: Remove the answer and everything attached to it, and take back the reputation it earned
+    await deleteAnswerAndUpdateQuestion(answer, session);
+    await reverseReputationForTargets([answer._id], userId!, session);
+
+    // Step 4: Commit transaction and revalidate page
+    await session.commitTransaction();
+    revalidatePath(ROUTES.QUESTION(answer.question.toString()));
+
+    return { success: true };
+  } catch (error) {
+    await session.abortTransaction();
+    return handleError(error) as ErrorResponse;
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Validates the input parameters and user authorization.
+ * @param params - Parameters to validate.
+ * @returns Validation result or error.
+ */
+async function validateInput<T>(params: T) {
+  return action({
+    params,
+    schema: DeleteAnswerSchema as z.ZodSchema,
+    authorize: true,
+  });
+}
+
+/**
+ * Performs the database operations to delete an answer and update the question.
+ * @param answer - The answer document being deleted.
+ * @param session - Mongoose session.
+ */
+async function deleteAnswerAndUpdateQuestion(answer: IAnswerDoc, session: mongoose.ClientSession): Promise<void> {
+  await Vote.deleteMany({ actionId: answer._id, actionType: 'answer' }, { session });
+  await Comment.deleteMany({ targetId: answer._id, targetType: 'answer' }, { session });
+  await Interaction.deleteMany({ actionId: answer._id, actionType: 'answer' }, { session });
+  await Answer.findByIdAndDelete(answer._id, { session });
+
+  // Answering is recorded on the question, so it only goes once the author has no answer left there
+  const hasOtherAnswers = await Answer.exists({ question: answer.question, author: answer.author }).session(session);
+  if (!hasOtherAnswers) {
+    await Interaction.deleteOne(
+      { user: answer.author, action: 'answer', actionId: answer.question, actionType: 'question' },
+      { session }
+    );
+  }
+
+  // Update question's answer count, and drop the accepted mark if it pointed at this answer
+  await Question.findByIdAndUpdate(answer.question, { $inc: { answers: -1 } }, { session });
+  await Question.updateOne(
+    { _id: answer.question, acceptedAnswer: answer._id },
+    { $set: { acceptedAnswer: null } },
+    { session }
+  );
+}
@@ -0,0 +1,170 @@
+'use server';
+
+import mongoose from 'mongoose';
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { ZodSchema } from 'zod';
+
+import { CACHE_TAGS } from '@/constants/cache';
+import ROUTES from '@/constants/routes';
+import { Answer, Collection, Comment, Interaction, Question, Revision, TagQuestion, Tag, Vote } from '@/database';
+import { IQuestionDoc } from '@/database/question.model';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { ForbiddenError, NotFoundError } from '../http-errors';
+import { getSessionRole, hasPermission } from '../permissions';
+import { reverseReputationForTargets } from '../reputation';
+import { updateTagCooccurrence } from '../tag-cooccurrence';
+import { DeleteQuestionSchema } from '../validations';
+
+/**
+ * Deletes a question together with everything that hangs off it
+ *
+ * Removed in a single transaction:
+ * 1. Every answer posted to the question
+ * 2. Every vote cast on the question or on one of its answers
+ * 3. Every comment on the question or on one of its answers
+ * 4. Every collection entry that saved the question
+ * 5. The question's tag-question relationships
+ * 6. The question's revision history
+ * 7. Every interaction recorded on the question or on one of its answers
+ * 8. The question itself
+ *
+ * Tag usage counts are decremented, and tags that are no longer used by any
+ * question are deleted. Reputation earned through the question and its
+ * answers is reversed.
+ *
+ * Authors can delete their own questions, moderators any question.
+ *
+ * @param params - Object containing the ID of the question to delete
+ * @returns Object with success flag or error details
+ *
+ * Example:
+ * await deleteQuestion({ questionId: "123" });
+ */
+export async function deleteQuestion(params: DeleteQuestionParams): Promise<ActionResponse> {
+  const validationResult = await validateDeleteQuestion(params);
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { questionId } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+  const role = getSessionRole(validationResult.session);
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const question = await Question.findById(questionId).session(session);
+    if (!question) throw new NotFoundError('Question');
+    if (question.author.toString() !== userId && !hasPermission(role, 'deleteOthersContent')) {
+      throw new ForbiddenError('You are not allowed to delete this question');
+    }
+
+    await deleteQuestionCascade(question, userId!, session);
+
+    await session.commitTransaction();
+
+    revalidatePath(ROUTES.HOME);
+    revalidatePath(ROUTES.QUESTION(questionId));
+    revalidateTag(CACHE_TAGS.HOT_QUESTIONS);
+    revalidateTag(CACHE_TAGS.POPULAR_TAGS);
+
+    return { success: true };
+  } catch (error) {
+    await session.abortTransaction();
+    return handleError(error) as ErrorResponse;
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Validates the input data for deleting a question
+ * Requires an authenticated user
+ */
+async function validateDeleteQuestion<T>(params: T) {
+  return await action({
+    params,
+    schema: DeleteQuestionSchema as ZodSchema,
+    authorize: true,
+  });
+}
+
+/**
+ * Removes the question and all of its dependent documents
+ *
+ * @param question - The question document being deleted
+ * @param userId - ID of the user deleting the question
+ * @param session - Database transaction session
+ */
+async function deleteQuestionCascade(
+  question: IQuestionDoc,
+  userId: string,
+  session: mongoose.ClientSession
+): Promise<void> {
+  const questionId = question._id;
+
+  // Collect the answer IDs first so their votes and comments can be removed as well
+  const answers = await Answer.find({ question: questionId }, { _id: 1 }).session(session);
+  const answerIds = answers.map(answer => answer._id);
+
+  await Vote.deleteMany(
+    {
+      $or: [
+        { actionId: questionId, actionType: 'question' },
+        { actionId: { $in: answerIds }, actionType: 'answer' },
+      ],
+    },
+    { session }
+  );
+
+  await Comment.deleteMany(
+    {
+      $or: [
+        { targetId: questionId, targetType: 'question' },
+        { targetId: { $in: answerIds }, targetType: 'answer' },
+      ],
+    },
+    { session }
+  );
+
+  await Collection.deleteMany({ question: questionId }, { session });
+  await Answer.deleteMany({ question: questionId }, { session });
+  await TagQuestion.deleteMany({ question: questionId }, { session });
+  await updateTagCooccurrence(question.tags, [], session);
+  await Revision.deleteMany({ question: questionId }, { session });
+  await Interaction.deleteMany(
+    {
+      $or: [
+        { actionId: questionId, actionType: 'question' },
+        { actionId: { $in: answerIds }, actionType: 'answer' },
+      ],
+    },
+    { session }
+  );
+
+  await releaseQuestionTags(question.tags, session);
+  await reverseReputationForTargets([questionId, ...answerIds], userId, session);
+
+  await Question.findByIdAndDelete(questionId, { session });
+}
+
+/**
+ * Decrements the usage count of the given tags and deletes
+ * the ones that are no longer attached to any question
+ *
+ * Example:
+ * Tag "react" with questions: 3 → questions: 2
+ * Tag "redux" with questions: 1 → deleted
+ *
+ * @param tagIds - IDs of the tags attached to the deleted question
+ * @param session - Database transaction session
+ */
+async function releaseQuestionTags(tagIds: mongoose.Types.ObjectId[], session: mongoose.ClientSession): Promise<void> {
+  if (tagIds.length === 0) return;
+
+  await Tag.updateMany({ _id: { $in: tagIds } }, { $inc: { questions: -1 } }, { session });
+  await Tag.deleteMany({ _id: { $in: tagIds }, questions: { $lte: 0 } }, { session });
+}
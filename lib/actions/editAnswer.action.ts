@@ -0,0 +1,64 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+import ROUTES from '@/constants/routes';
+import { Answer } from '@/database';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { NotFoundError } from '../http-errors';
+import { assertPrivilege } from '../privileges';
+import { EditAnswerSchema } from '../validations';
+
+/**
+ * Updates the content of an existing answer.
+ * Besides the author, users with the editOthersPosts privilege may edit it.
+ * @param params - Object containing the answer ID and the new content.
+ * @returns Promise resolving to either a success response with the updated answer or an error response.
+ */
+export async function editAnswer(params: EditAnswerParams): Promise<ActionResponse<Answer>> {
+  // Step 1: Validate input parameters and user authorization
+  const validationResult = await validateInput(params);
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { answerId, content } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  try {
+    // Step 2: Make sure the answer exists and the current user may edit it
+    const answer = await Answer.findById(answerId);
+    if (!answer) throw new NotFoundError('Answer');
+    if (answer.author.toString() !== userId) {
+      await assertPrivilege(validationResult.session, 'editOthersPosts');
+    }
+
+    // Step 3: Only write when the content actually changed
+    if (answer.content !== content) {
+      answer.content = content;
+      await answer.save();
+    }
+
+    revalidatePath(ROUTES.QUESTION(answer.question.toString()));
+
+    return { success: true, data: JSON.parse(JSON.stringify(answer)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Validates the input parameters and user authorization.
+ * @param params - Parameters to validate.
+ * @returns Validation result or error.
+ */
+async function validateInput<T>(params: T) {
+  return action({
+    params,
+    schema: EditAnswerSchema as z.ZodSchema,
+    authorize: true,
+  });
+}
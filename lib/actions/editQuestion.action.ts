@@ -1,24 +1,39 @@
 'use server';
 
 import mongoose from 'mongoose';
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { Session } from 'next-auth';
 import { ZodSchema } from 'zod';
 
+import { CACHE_TAGS } from '@/constants/cache';
+import ROUTES from '@/constants/routes';
 import Question, { IQuestionDoc } from '@/database/question.model';
+import Revision from '@/database/revision.model';
 import TagQuestion from '@/database/tag-question.model';
 import Tag, { ITagDoc } from '@/database/tag.model';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
-import { EditQuestionSchema } from '../validations';
+import { ForbiddenError, NotFoundError } from '../http-errors';
+import { getSessionRole, hasPermission } from '../permissions';
+import { assertCanUseTag, assertPrivilege } from '../privileges';
+import { ensureInitialRevision, getTagNames, recordQuestionRevision } from '../revisions';
+import { updateTagCooccurrence } from '../tag-cooccurrence';
+import { resolveTagNames } from '../tags';
+import { escapeRegExp } from '../utils';
+import { EditQuestionSchema, RollbackQuestionSchema } from '../validations';
 
 /**
  * Main function to update an existing question and its tags
  *
  * This function handles the entire update process:
  * 1. Validates the input data (title, content, tags)
- * 2. Checks if user is authorized to edit the question
+ * 2. Checks if user is authorized to edit the question (the author, or
+ *    anyone with the editOthersPosts privilege)
  * 3. Updates the question content if changed
- * 4. Manages tags (adds new ones, removes old ones)
+ * 4. Manages tags (adds new ones, removes old ones), mapping tag synonyms
+ *    such as "js" to their canonical tag
+ * 5. Stores the new version in the question's revision history
  *
  * Uses database transactions to ensure all-or-nothing updates:
  * - If any part fails, all changes are rolled back
@@ -29,6 +44,7 @@ import { EditQuestionSchema } from '../validations';
  *   - content: New content/body of the question
  *   - tags: Array of tag names
  *   - questionId: ID of the question to update
+ *   - summary: Optional description of the edit, shown in the revision history
  *
  * @returns Object with:
  *   - success: true if update was successful
@@ -50,7 +66,7 @@ export async function editQuestion(params: EditQuestionParams): Promise<ActionRe
     return handleError(validationResult) as ErrorResponse;
   }
 
-  const { title, content, tags, questionId } = validationResult.params!;
+  const { title, content, tags: requestedTags, questionId, summary } = validationResult.params!;
   const userId = validationResult?.session?.user?.id;
 
   // Start a database transaction
@@ -61,16 +77,31 @@ export async function editQuestion(params: EditQuestionParams): Promise<ActionRe
   try {
     // Find the question and include its tags
     const question = await Question.findById(questionId).populate('tags');
-    if (!question) throw new Error('Question not found');
-    if (question.author.toString() !== userId) throw new Error('Unauthorized');
+    if (!question) throw new NotFoundError('Question');
+    if (question.author.toString() !== userId) {
+      await assertPrivilege(validationResult.session, 'editOthersPosts');
+    }
 
-    // Update the question's content
-    await updateQuestionContent(question, title, content, session);
-    // Handle tag changes (additions and removals)
-    await processTagChanges(question, tags, questionId, session);
+    const tags = await resolveTagNames(requestedTags, session);
+
+    // Only edits that actually change something become a new revision
+    if (hasQuestionChanged(question, title, content, tags)) {
+      await ensureInitialRevision(question, session);
+
+      // Update the question's content
+      await updateQuestionContent(question, title, content, session);
+      // Handle tag changes (additions and removals)
+      await processTagChanges(question, tags, questionId, validationResult.session, session);
+
+      await recordQuestionRevision({ questionId, authorId: userId!, title, content, tags, summary }, session);
+    }
 
     // If everything succeeded, commit all changes
     await session.commitTransaction();
+    revalidatePath(ROUTES.QUESTION_REVISIONS(questionId));
+    revalidateTag(CACHE_TAGS.HOT_QUESTIONS);
+    revalidateTag(CACHE_TAGS.POPULAR_TAGS);
+
     return { success: true, data: JSON.parse(JSON.stringify(question)) };
   } catch (error) {
     // If anything failed, undo all changes
@@ -82,6 +113,79 @@ export async function editQuestion(params: EditQuestionParams): Promise<ActionRe
   }
 }
 
+/**
+ * Restores a question to one of its earlier revisions
+ *
+ * The rollback does not rewrite history: the restored title, body and tags
+ * are stored as a new revision on top of the existing ones.
+ * Authors can roll back their own questions, moderators any question.
+ *
+ * @param params - Object containing:
+ *   - questionId: ID of the question to roll back
+ *   - revisionId: ID of the revision to restore
+ *
+ * Example:
+ * await rollbackQuestion({ questionId: "123", revisionId: "456" });
+ */
+export async function rollbackQuestion(params: RollbackQuestionParams): Promise<ActionResponse> {
+  const validationResult = await action({
+    params,
+    schema: RollbackQuestionSchema as ZodSchema,
+    authorize: true,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { questionId, revisionId } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+  const role = getSessionRole(validationResult.session);
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const question = await Question.findById(questionId).populate('tags').session(session);
+    if (!question) throw new NotFoundError('Question');
+    if (question.author.toString() !== userId && !hasPermission(role, 'rollbackOthersQuestions')) {
+      throw new ForbiddenError('You are not allowed to roll back this question');
+    }
+
+    const target = await Revision.findOne({ _id: revisionId, question: questionId }).session(session);
+    if (!target) throw new NotFoundError('Revision');
+
+    // Tags may have been merged into others since the revision was made
+    const { title, content } = target;
+    const tags = await resolveTagNames(target.tags, session);
+    if (!hasQuestionChanged(question, title, content, tags)) {
+      throw new Error('The question already matches this revision');
+    }
+
+    await ensureInitialRevision(question, session);
+    await updateQuestionContent(question, title, content, session);
+    await processTagChanges(question, tags, questionId, validationResult.session, session);
+
+    await recordQuestionRevision(
+      { questionId, authorId: userId!, title, content, tags, summary: `Rolled back to revision ${target.revision}` },
+      session
+    );
+
+    await session.commitTransaction();
+
+    revalidatePath(ROUTES.QUESTION(questionId));
+    revalidatePath(ROUTES.QUESTION_REVISIONS(questionId));
+    revalidateTag(CACHE_TAGS.HOT_QUESTIONS);
+    revalidateTag(CACHE_TAGS.POPULAR_TAGS);
+
+    return { success: true };
+  } catch (error) {
+    await session.abortTransaction();
+    return handleError(error) as ErrorResponse;
+  } finally {
+    await session.endSession();
+  }
+}
+
 /**
  * Validates the input data for editing a question
  *
@@ -101,6 +205,27 @@ async function validateEditQuestion<T>(params: T) {
   });
 }
 
+/**
+ * Checks whether the title, body or tag set differ from the question's current state
+ * Tags are compared case-insensitively and regardless of order.
+ *
+ * @param question - The question with populated tags
+ * @param title - New title
+ * @param content - New content/body
+ * @param tags - New tag names
+ */
+function hasQuestionChanged(question: IQuestionDoc, title: string, content: string, tags: string[]): boolean {
+  const normalize = (names: string[]) =>
+    names
+      .map(name => name.toLowerCase())
+      .sort()
+      .join(',');
+
+  return (
+    question.title !== title || question.content !== content || normalize(getTagNames(question)) !== normalize(tags)
+  );
+}
+
 /**
  * Updates the basic content of a question (title and body)
  *
@@ -158,12 +283,14 @@ async function updateQuestionContent(
  * @param question - The question being updated
  * @param newTags - Array of new tag names
  * @param questionId - ID of the question
+ * @param authSession - Session of the editing user, whose privileges decide whether new tags may be created
  * @param session - Database transaction session
  */
 async function processTagChanges(
   question: mongoose.Document & IQuestionDoc,
   newTags: string[],
   questionId: string,
+  authSession: Session | null,
   session: mongoose.ClientSession
 ): Promise<void> {
   // Convert tags to lowercase for case-insensitive comparison
@@ -171,6 +298,7 @@ async function processTagChanges(
 
   // Get current tags from the populated question
   const currentTags = question.populated('tags') ? (question.tags as unknown as ITagDoc[]) : [];
+  const previousTagIds = currentTags.map(tag => tag._id as mongoose.Types.ObjectId);
 
   // Create lists of tags to add and remove
   const tagsToAdd = normalizedNewTags.filter(
@@ -185,9 +313,12 @@ async function processTagChanges(
   // Process tags that need to be added
   if (tagsToAdd.length > 0) {
     for (const tagName of tagsToAdd) {
+      // Only users with the createTags privilege may introduce new tags
+      await assertCanUseTag(authSession, tagName, session);
+
       // Find existing tag or create new one (case-insensitive search)
       const existingTag = await Tag.findOneAndUpdate(
-        { name: { $regex: `^${tagName}$`, $options: 'i' } },
+        { name: { $regex: `^${escapeRegExp(tagName)}$`, $options: 'i' } },
         {
           $setOnInsert: { name: tagName }, // Only set name if creating new tag
           $inc: { questions: 1 }, // Increment question count for the tag
@@ -249,4 +380,7 @@ async function processTagChanges(
 
   // Save all changes to the question
   await question.save({ session });
+
+  // Keep the related tags statistics in step with the new tag set
+  await updateTagCooccurrence(previousTagIds, question.tags as mongoose.Types.ObjectId[], session);
 }
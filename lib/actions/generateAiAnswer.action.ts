@@ -1,9 +1,24 @@
 'use server';
 
 import { auth } from '@/auth';
+import { cacheAIAnswer, getAIAnswerCacheKey, getCachedAIAnswer, reserveAIGeneration } from '@/lib/ai-usage';
 import { api } from '@/lib/api';
+import handleError from '@/lib/handlers/error';
+import logger from '@/lib/logger';
+import dbConnect from '@/lib/mongoose';
+import { formatAIAnswer } from '@/lib/utils';
 
-export async function generateAIAnswer(questionTitle: string, questionContent: string, userAnswer?: string) {
+/**
+ * Generates an AI answer for a question, taking the user's draft into account
+ * Answers are served from the cache when the same draft was answered before;
+ * every other answer counts towards the user's daily AI quota.
+ */
+export async function generateAIAnswer(
+  questionId: string,
+  questionTitle: string,
+  questionContent: string,
+  userAnswer?: string
+) {
   const session = await auth();
   const userId = session?.user?.id;
 
@@ -15,23 +30,46 @@ export async function generateAIAnswer(questionTitle: string, questionContent: s
   }
 
   try {
-    const response = await api.ai.getAnswer(questionTitle, questionContent, userAnswer);
+    await dbConnect();
+
+    const request = { questionId, question: questionTitle, content: questionContent, userAnswer };
+    const cacheKey = getAIAnswerCacheKey(request);
+
+    const cachedAnswer = await getCachedAIAnswer(cacheKey);
+    if (cachedAnswer !== null) {
+      return { success: true, data: cachedAnswer };
+    }
+
+    const { release } = await reserveAIGeneration(userId);
+
+    // Failed generations are given back to the user's quota
+    let response: APIResponse<string>;
+    try {
+      response = await api.ai.getAnswer(questionId, questionTitle, questionContent, userAnswer);
+    } catch (error) {
+      await release();
+      throw error;
+    }
+
     if (!response.success) {
+      await release();
       return response;
     }
 
-    const formattedAnswer = response.data.replace(/<br>/g, '\n').replace(/N\/A/g, '').toString().trim();
+    const formattedAnswer = formatAIAnswer(response.data);
+
+    // The answer was generated either way, so a failed cache write is only logged
+    try {
+      await cacheAIAnswer(cacheKey, questionId, formattedAnswer);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to cache AI answer');
+    }
 
     return {
       success: true,
       data: formattedAnswer,
     };
   } catch (error) {
-    return {
-      success: false,
-      error: {
-        message: error instanceof Error ? error.message : 'There was a problem with your request',
-      },
-    };
+    return handleError(error) as ErrorResponse;
   }
 }
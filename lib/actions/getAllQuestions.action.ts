@@ -1,28 +1,71 @@
 'use server';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { FilterQuery, SortOrder } from 'mongoose';
+import { FilterQuery, SortOrder, Types } from 'mongoose';
 import { ZodSchema } from 'zod';
 
-import { Question, Tag } from '@/database';
+import { auth } from '@/auth';
+import { Answer, Interaction, Question, Tag, TagPreference, User } from '@/database';
+import { InteractionAction } from '@/database/interaction.model';
+import { TagPreferenceKind } from '@/database/tag-preference.model';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
+import { getHighlightTerms, withHighlights } from '../highlight';
+import { INTERACTION_WEIGHTS } from '../interactions';
+import { regexCondition, resolveTextSearch, SortCriteria, textCondition, TextSearch, withRelevance } from '../search';
+import { ParsedSearchQuery, parseSearchQuery, ScoreOperator } from '../search-query';
+import { findTagByName, resolveTagNames } from '../tags';
+import { escapeRegExp } from '../utils';
 import { PaginatedSearchParamsSchema } from '../validations';
 
+// Number of the user's strongest tags used to rank recommendations
+const RECOMMENDATION_TAG_LIMIT = 10;
+// Number of the user's most recent interactions that recommendations are based on
+const RECOMMENDATION_INTERACTION_LIMIT = 500;
+
+// Condition that no question matches, used when a search names a tag or user that does not exist
+const MATCH_NOTHING = { _id: { $in: [] } };
+
+const OBJECT_ID_PATTERN = /^[a-f\d]{24}$/i;
+
+const SCORE_OPERATORS: Record<ScoreOperator, string> = {
+  '>': '$gt',
+  '>=': '$gte',
+  '<': '$lt',
+  '<=': '$lte',
+  '=': '$eq',
+};
+
 type FilterConditions = {
   filterQuery: FilterQuery<typeof Question>;
   sortCriteria: { [key: string]: SortOrder };
 };
 
+// Tags that personalize the feed of the current user
+type FeedPreferences = {
+  watched: Types.ObjectId[];
+  ignored: Types.ObjectId[];
+  hideIgnored: boolean;
+};
+
 /**
  * Server action to retrieve a paginated list of questions with filtering and search
  *
  * @param params - Object containing search and pagination parameters
  * @param params.page - Current page number (default: 1)
  * @param params.pageSize - Number of questions per page (default: 10)
- * @param params.query - Optional search term to filter questions
- * @param params.filter - Optional filter type ('newest', 'unanswered', 'popular', 'recommended')
+ * @param params.query - Optional search term to filter questions; without an explicit
+ *   filter, matches are ordered by relevance. Supports the advanced syntax from
+ *   lib/search-query.ts, e.g. `[typescript] is:unanswered score:>=3 "exact phrase"`
+ * @param params.filter - Optional filter type ('newest', 'unanswered', 'popular', 'recommended', 'watched')
+ *   'unanswered' matches questions with neither an accepted answer nor an upvoted answer
+ *   'recommended' ranks questions by the tags the current user engaged with
+ *   'watched' matches questions carrying one of the current user's watched tags
+ *
+ * For signed-in users the feed follows their tag preferences: questions with
+ * watched tags come first within the chosen order (search relevance is left
+ * alone), and questions with ignored tags are dimmed, or hidden if they asked for it.
  *
  * @returns Promise containing:
  * - success: boolean indicating if the operation was successful
@@ -40,27 +83,48 @@ export async function getAllQuestions(
       return handleError(validationResult) as ErrorResponse;
     }
 
+    const { page = 1, pageSize = 10, query: searchTerm, filter } = params;
+    const { skip, limit } = calculatePaginationParams(page, pageSize);
+
+    const session = await auth();
+    const feed = await loadFeedPreferences(session?.user?.id);
+
+    // Throws a ValidationError for malformed operator values
+    const parsedQuery = parseSearchQuery(searchTerm);
+    const search = await buildSearchQuery(parsedQuery.text, parsedQuery.phrases);
+    const searchQuery = combineConditions([
+      search.query,
+      ...(await buildAdvancedConditions(parsedQuery)),
+      feed.hideIgnored && feed.ignored.length > 0 ? { tags: { $nin: feed.ignored } } : {},
+    ]);
+    const highlightTerms = getHighlightTerms(parsedQuery.text, parsedQuery.phrases);
+
     // Handle the 'recommended' filter case
-    if (params.filter === 'recommended') {
+    if (filter === 'recommended') {
+      const { questions, isNext } = await getRecommendedQuestions(searchQuery, skip, limit, session?.user?.id);
+
       return {
         success: true,
-        data: { questions: [], isNext: false },
+        data: { questions: withHighlights(markIgnored(questions, feed.ignored), highlightTerms), isNext },
       };
     }
+    const { filterQuery, sortCriteria } = await getFilterConditions(filter, feed);
 
-    const { page = 1, pageSize = 10, query: searchTerm, filter } = params;
-    const { skip, limit } = calculatePaginationParams(page, pageSize);
-
-    const searchQuery = await buildSearchQuery(searchTerm);
-    const { filterQuery, sortCriteria } = await getFilterConditions(filter);
+    // Combine search and filter queries; both may constrain the same fields, e.g. tags
+    const finalQuery = combineConditions([searchQuery, filterQuery]);
 
-    // Combine search and filter queries
-    const finalQuery = { ...searchQuery, ...filterQuery };
+    // An explicitly chosen filter keeps its own order; otherwise the best matches come first
+    const rankedByRelevance = !filter && search.ranked;
+    const finalSort = rankedByRelevance ? withRelevance(search, sortCriteria) : sortCriteria;
+    // Every question of the 'watched' filter carries a watched tag, so there is nothing to boost
+    const boostWatched = feed.watched.length > 0 && !rankedByRelevance && filter !== 'watched';
 
     // Execute database queries in parallel
     const [totalQuestions, questions] = await Promise.all([
       Question.countDocuments(finalQuery),
-      fetchQuestionsFromDB(finalQuery, sortCriteria, skip, limit),
+      boostWatched
+        ? fetchBoostedQuestions(finalQuery, finalSort, skip, limit, feed.watched)
+        : fetchQuestionsFromDB(finalQuery, finalSort, skip, limit),
     ]);
 
     const isNext = hasMorePages(totalQuestions, skip, questions.length);
@@ -68,19 +132,13 @@ export async function getAllQuestions(
     return {
       success: true,
       data: {
-        questions: JSON.parse(JSON.stringify(questions)),
+        questions: withHighlights(markIgnored(JSON.parse(JSON.stringify(questions)), feed.ignored), highlightTerms),
         isNext,
       },
     };
   } catch (error) {
-    console.error('Error in getAllQuestions:', error);
-    return {
-      success: true,
-      data: {
-        questions: [],
-        isNext: false,
-      },
-    };
+    // Mistakes in the search syntax are reported back to the user as validation errors
+    return handleError(error) as ErrorResponse;
   }
 }
 
@@ -109,48 +167,140 @@ function calculatePaginationParams(page: number = 1, pageSize: number = 10) {
   };
 }
 
+/**
+ * Combines query conditions so that all of them must match
+ * Empty conditions are dropped, and a single condition is returned as it is.
+ */
+function combineConditions(conditions: FilterQuery<typeof Question>[]): FilterQuery<typeof Question> {
+  const nonEmpty = conditions.filter(condition => Object.keys(condition).length > 0);
+  if (nonEmpty.length <= 1) return nonEmpty[0] ?? {};
+
+  return { $and: nonEmpty };
+}
+
 /**
  * Builds a search query to search for questions by title, content, or tags
- * @param searchTerm - Optional search term
- * @returns MongoDB query object
+ * Uses the question text index when it finds matches, and an escaped
+ * substring match over title and content otherwise
+ * @param searchTerm - Free words of the search
+ * @param phrases - Exact phrases every result must contain
+ * @returns MongoDB query object and whether it can be sorted by relevance
  */
-async function buildSearchQuery(searchTerm?: string) {
-  if (!searchTerm) return {};
+async function buildSearchQuery(searchTerm: string, phrases: string[] = []): Promise<TextSearch<typeof Question>> {
+  if (!searchTerm.trim() && phrases.length === 0) return { query: {}, ranked: false };
+
+  const phraseConditions = phrases.map(phrase => regexCondition(phrase, ['title', 'content']));
+  const textSearch = [searchTerm, ...phrases.map(phrase => `"${phrase}"`)].join(' ');
+
+  // With phrases, a matching tag alone is not enough, so tags only widen plain word searches
+  if (phrases.length > 0) {
+    const textQuery = textCondition(textSearch);
+    if (await Question.exists(textQuery)) return { query: textQuery, ranked: true };
 
-  const regex = new RegExp(searchTerm, 'i'); // Case-insensitive regex
+    const wordCondition = searchTerm.trim() ? [regexCondition(searchTerm, ['title', 'content'])] : [];
+    return { query: { $and: [...wordCondition, ...phraseConditions] }, ranked: false };
+  }
 
   // First, find all tag IDs that match the search term
-  const matchingTagIds = await Tag.find({ name: { $regex: regex } }).select('_id');
-  const tagIds = matchingTagIds.map(tag => tag._id);
+  const { query: tagQuery } = await resolveTextSearch(Tag, {}, searchTerm, ['name']);
+  const tagIds = await Tag.distinct('_id', tagQuery);
+  const tagCondition = { tags: { $in: tagIds } }; // Include questions that have any matching tags
 
-  return {
-    $or: [
-      { title: { $regex: regex } },
-      { content: { $regex: regex } },
-      { tags: { $in: tagIds } }, // Include questions that have any matching tags
-    ],
-  };
+  const textQuery = { $or: [textCondition(textSearch), tagCondition] };
+  if (await Question.exists(textQuery)) return { query: textQuery, ranked: true };
+
+  return { query: { $or: [...regexCondition(searchTerm, ['title', 'content']).$or, tagCondition] }, ranked: false };
+}
+
+/**
+ * Turns the operators of an advanced search into query conditions
+ * Tags and users are looked up case-insensitively, tag synonyms included; unknown ones match no questions.
+ *
+ * Example:
+ * [react] score:>=3 created:2026-01..2026-06
+ * → [{ tags: { $all: [reactId] } },
+ *    { $expr: { $gte: [{ $subtract: ["$upvotes", "$downvotes"] }, 3] } },
+ *    { createdAt: { $gte: 2026-01-01, $lt: 2026-07-01 } }]
+ */
+async function buildAdvancedConditions(parsed: ParsedSearchQuery): Promise<FilterQuery<typeof Question>[]> {
+  const conditions: FilterQuery<typeof Question>[] = [];
+
+  if (parsed.tags.length > 0) {
+    const tags = await Promise.all((await resolveTagNames(parsed.tags)).map(name => findTagByName(name)));
+    conditions.push(tags.every(Boolean) ? { tags: { $all: tags.map(tag => tag._id) } } : MATCH_NOTHING);
+  }
+
+  for (const state of parsed.is) {
+    if (state === 'unanswered') conditions.push(await buildUnansweredQuery());
+    if (state === 'answered') conditions.push(await buildAnsweredQuery());
+    if (state === 'accepted') conditions.push({ acceptedAnswer: { $ne: null } });
+    if (state === 'closed') conditions.push({ closedAt: { $ne: null } });
+    if (state === 'open') conditions.push({ closedAt: null });
+  }
+
+  if (parsed.score) {
+    const { operator, value } = parsed.score;
+    conditions.push({ $expr: { [SCORE_OPERATORS[operator]]: [{ $subtract: ['$upvotes', '$downvotes'] }, value] } });
+  }
+
+  if (parsed.user) {
+    // Accept either a user ID or a username; ObjectId.isValid would also accept any 12-character username
+    const author = OBJECT_ID_PATTERN.test(parsed.user)
+      ? await User.findById(parsed.user, { _id: 1 })
+      : await User.findOne({ username: { $regex: `^${escapeRegExp(parsed.user)}$`, $options: 'i' } }, { _id: 1 });
+    conditions.push(author ? { author: author._id } : MATCH_NOTHING);
+  }
+
+  if (parsed.created) {
+    const { from, to } = parsed.created;
+    conditions.push({ createdAt: { ...(from && { $gte: from }), ...(to && { $lt: to }) } });
+  }
+
+  return conditions;
+}
+
+/**
+ * Loads the tags the user watches and ignores
+ * Signed-out visitors get an unpersonalized feed.
+ */
+async function loadFeedPreferences(userId?: string): Promise<FeedPreferences> {
+  if (!userId) return { watched: [], ignored: [], hideIgnored: false };
+
+  const [preferences, user] = await Promise.all([
+    TagPreference.find({ user: userId }, { tag: 1, preference: 1 }).lean<
+      Array<{ tag: Types.ObjectId; preference: TagPreferenceKind }>
+    >(),
+    User.findById(userId, { hideIgnoredTags: 1 }),
+  ]);
+  const tagsWith = (kind: TagPreferenceKind) =>
+    preferences.filter(({ preference }) => preference === kind).map(({ tag }) => tag);
+
+  return { watched: tagsWith('watched'), ignored: tagsWith('ignored'), hideIgnored: !!user?.hideIgnoredTags };
+}
+
+/**
+ * Flags the questions that carry one of the user's ignored tags, so the feed can dim them
+ */
+function markIgnored(questions: Question[], ignoredTags: Types.ObjectId[]): Question[] {
+  if (ignoredTags.length === 0) return questions;
+
+  const ignored = new Set(ignoredTags.map(tagId => tagId.toString()));
+  return questions.map(question => ({
+    ...question,
+    ignored: question.tags.some(tag => ignored.has(tag._id.toString())),
+  }));
 }
 
 /**
  * Gets filter conditions and sorting criteria based on the filter type
  * If the filter type doesn't match predefined filters, checks if it matches a tag name
  * @param filterType - Type of filter to apply or tag name
+ * @param feed - Tag preferences of the current user, for the 'watched' filter
  * @returns Promise of filter conditions
  */
-async function getFilterConditions(filterType?: string): Promise<FilterConditions> {
+async function getFilterConditions(filterType: string | undefined, feed: FeedPreferences): Promise<FilterConditions> {
   const defaultSort = { createdAt: -1 as SortOrder };
 
-  const findTagByName = async (name: string) => {
-    try {
-      return await Tag.findOne({
-        name: { $regex: new RegExp(name, 'i') },
-      });
-    } catch (error) {
-      return handleError(error, 'api');
-    }
-  };
-
   const getDefaultFilterConditions = (sortCriteria: { [key: string]: SortOrder }) => ({
     filterQuery: {},
     sortCriteria,
@@ -158,13 +308,25 @@ async function getFilterConditions(filterType?: string): Promise<FilterCondition
 
   const predefinedFilters: Record<string, FilterConditions> = {
     newest: getDefaultFilterConditions({ createdAt: -1 as SortOrder }),
-    unanswered: {
-      filterQuery: { answers: 0 },
-      sortCriteria: { createdAt: -1 as SortOrder },
-    },
     popular: getDefaultFilterConditions({ upvotes: -1 as SortOrder }),
   };
 
+  // Handle the 'unanswered' filter, which needs to look at the answers collection
+  if (filterType === 'unanswered') {
+    return {
+      filterQuery: await buildUnansweredQuery(),
+      sortCriteria: { createdAt: -1 as SortOrder },
+    };
+  }
+
+  // Handle the 'watched' filter; without watched tags it matches nothing
+  if (filterType === 'watched') {
+    return {
+      filterQuery: { tags: { $in: feed.watched } },
+      sortCriteria: defaultSort,
+    };
+  }
+
   // Handle predefined filters
   if (filterType && predefinedFilters[filterType]) {
     return predefinedFilters[filterType];
@@ -172,7 +334,8 @@ async function getFilterConditions(filterType?: string): Promise<FilterCondition
 
   // Handle tag-based filtering
   if (filterType) {
-    const tag = await findTagByName(filterType);
+    const [tagName] = await resolveTagNames([filterType]);
+    const tag = await findTagByName(tagName);
     if (tag) {
       return {
         filterQuery: { tags: tag._id },
@@ -185,6 +348,165 @@ async function getFilterConditions(filterType?: string): Promise<FilterCondition
   return getDefaultFilterConditions(defaultSort);
 }
 
+/**
+ * Builds the query for questions that still need an answer
+ * A question counts as answered once it has an accepted answer or
+ * at least one answer with an upvote
+ * @returns MongoDB query object
+ */
+async function buildUnansweredQuery(): Promise<FilterQuery<typeof Question>> {
+  const questionsWithUpvotedAnswers = await Answer.distinct('question', { upvotes: { $gt: 0 } });
+
+  return {
+    acceptedAnswer: null,
+    _id: { $nin: questionsWithUpvotedAnswers },
+  };
+}
+
+/**
+ * Builds the query for questions that count as answered, the opposite of buildUnansweredQuery
+ * @returns MongoDB query object
+ */
+async function buildAnsweredQuery(): Promise<FilterQuery<typeof Question>> {
+  const questionsWithUpvotedAnswers = await Answer.distinct('question', { upvotes: { $gt: 0 } });
+
+  return {
+    $or: [{ acceptedAnswer: { $ne: null } }, { _id: { $in: questionsWithUpvotedAnswers } }],
+  };
+}
+
+/**
+ * Builds the recommended feed for a user
+ *
+ * 1. Every question the user interacted with is "seen", and its tags score
+ *    points according to INTERACTION_WEIGHTS
+ * 2. Unseen questions by other users are ranked by the summed scores of the
+ *    user's strongest tags they carry, then by upvotes and recency
+ * 3. Users without any tag signal (or signed-out visitors) get popular questions
+ *
+ * Example:
+ * Viewed a "react" question (1) and saved a "react, nextjs" question (3)
+ * → react: 4, nextjs: 3
+ * → a question tagged "react, nextjs" ranks above one tagged only "react"
+ *
+ * @param searchQuery - Search conditions to combine with the recommendation
+ * @param skip - Number of documents to skip
+ * @param limit - Number of documents to return
+ * @param userId - ID of the current user, if signed in
+ */
+async function getRecommendedQuestions(
+  searchQuery: FilterQuery<typeof Question>,
+  skip: number,
+  limit: number,
+  userId?: string
+): Promise<{ questions: Question[]; isNext: boolean }> {
+  const popularSort = { upvotes: -1 as SortOrder, views: -1 as SortOrder, createdAt: -1 as SortOrder };
+
+  if (!userId) {
+    return fetchPage(searchQuery, popularSort, skip, limit);
+  }
+
+  const interactions = await Interaction.find({ user: userId, actionType: 'question' }, { action: 1, actionId: 1 })
+    .sort({ updatedAt: -1 })
+    .limit(RECOMMENDATION_INTERACTION_LIMIT);
+  const seenIds = [...new Set(interactions.map(interaction => interaction.actionId.toString()))].map(
+    id => new Types.ObjectId(id)
+  );
+
+  const baseQuery = combineConditions([
+    searchQuery,
+    { _id: { $nin: seenIds }, author: { $ne: new Types.ObjectId(userId) } },
+  ]);
+
+  const tagScores = await scoreInteractedTags(interactions);
+  if (tagScores.length === 0) {
+    return fetchPage(baseQuery, popularSort, skip, limit);
+  }
+
+  const matchQuery = combineConditions([baseQuery, { tags: { $in: tagScores.map(({ tagId }) => tagId) } }]);
+
+  const [totalQuestions, ranked] = await Promise.all([
+    Question.countDocuments(matchQuery),
+    Question.aggregate([
+      { $match: await toAggregationMatch(matchQuery) },
+      {
+        $addFields: {
+          relevance: {
+            $add: tagScores.map(({ tagId, score }) => ({ $cond: [{ $in: [tagId, '$tags'] }, score, 0] })),
+          },
+        },
+      },
+      { $sort: { relevance: -1, upvotes: -1, createdAt: -1 } },
+      { $skip: skip },
+      { $limit: limit },
+      { $project: { relevance: 0 } },
+    ]),
+  ]);
+
+  // Nothing left to recommend from the user's tags, so show popular questions instead
+  if (totalQuestions === 0) {
+    return fetchPage(baseQuery, popularSort, skip, limit);
+  }
+
+  const questions = await Question.populate(ranked, [
+    { path: 'tags', select: 'name' },
+    { path: 'author', select: 'name image' },
+  ]);
+
+  return {
+    questions: JSON.parse(JSON.stringify(questions)),
+    isNext: hasMorePages(totalQuestions, skip, questions.length),
+  };
+}
+
+/**
+ * Scores the tags of the questions a user interacted with
+ * @returns The user's strongest tags, highest score first
+ */
+async function scoreInteractedTags(
+  interactions: Array<{ action: InteractionAction; actionId: Types.ObjectId }>
+): Promise<Array<{ tagId: Types.ObjectId; score: number }>> {
+  if (interactions.length === 0) return [];
+
+  const questions = await Question.find(
+    { _id: { $in: interactions.map(interaction => interaction.actionId) } },
+    { tags: 1 }
+  ).lean<Array<{ _id: Types.ObjectId; tags: Types.ObjectId[] }>>();
+  const tagsByQuestion = new Map(questions.map(question => [question._id.toString(), question.tags]));
+
+  const scores = new Map<string, number>();
+  for (const { action, actionId } of interactions) {
+    for (const tagId of tagsByQuestion.get(actionId.toString()) ?? []) {
+      scores.set(tagId.toString(), (scores.get(tagId.toString()) ?? 0) + INTERACTION_WEIGHTS[action]);
+    }
+  }
+
+  return Array.from(scores, ([tagId, score]) => ({ tagId: new Types.ObjectId(tagId), score }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RECOMMENDATION_TAG_LIMIT);
+}
+
+/**
+ * Fetches a page of questions together with the pagination flag
+ */
+async function fetchPage(
+  query: FilterQuery<typeof Question>,
+  sortCriteria: { [key: string]: SortOrder },
+  skip: number,
+  limit: number
+): Promise<{ questions: Question[]; isNext: boolean }> {
+  const [totalQuestions, questions] = await Promise.all([
+    Question.countDocuments(query),
+    fetchQuestionsFromDB(query, sortCriteria, skip, limit),
+  ]);
+
+  return {
+    questions: JSON.parse(JSON.stringify(questions)),
+    isNext: hasMorePages(totalQuestions, skip, questions.length),
+  };
+}
+
 /**
  * Fetches questions from the database with the given query, sort criteria, and pagination
  * @param query - MongoDB query object
@@ -195,29 +517,74 @@ async function getFilterConditions(filterType?: string): Promise<FilterCondition
  */
 async function fetchQuestionsFromDB(
   query: FilterQuery<typeof Question>,
-  sortCriteria: { [key: string]: SortOrder },
+  sortCriteria: SortCriteria,
   skip: number,
   limit: number
 ) {
-  try {
-    // First check if there are any matching questions
-    const count = await Question.countDocuments(query);
+  // First check if there are any matching questions
+  const count = await Question.countDocuments(query);
 
-    if (count === 0) {
-      return [];
-    }
-
-    return Question.find(query)
-      .populate('tags', 'name')
-      .populate('author', 'name image')
-      .lean()
-      .sort(sortCriteria)
-      .skip(skip)
-      .limit(limit);
-  } catch (error) {
-    console.error('Error fetching questions:', error);
+  if (count === 0) {
     return [];
   }
+
+  return Question.find(query)
+    .populate('tags', 'name')
+    .populate('author', 'name image')
+    .lean()
+    .sort(sortCriteria)
+    .skip(skip)
+    .limit(limit);
+}
+
+/**
+ * Checks whether a query uses a text search anywhere, e.g. inside $or or $and
+ */
+function containsTextSearch(query: unknown): boolean {
+  if (Array.isArray(query)) return query.some(containsTextSearch);
+  if (!query || typeof query !== 'object') return false;
+
+  return Object.entries(query).some(([key, value]) => key === '$text' || containsTextSearch(value));
+}
+
+/**
+ * Turns a query into a condition that can be used in an aggregation $match
+ * Aggregations only accept $text in a leading $match of their own, never inside
+ * $or, so text searches are resolved to the matching question IDs first.
+ */
+async function toAggregationMatch(query: FilterQuery<typeof Question>): Promise<FilterQuery<typeof Question>> {
+  if (!containsTextSearch(query)) return query;
+
+  const ids = await Question.distinct('_id', query);
+
+  return { _id: { $in: ids } };
+}
+
+/**
+ * Fetches questions like fetchQuestionsFromDB, with the ones carrying more of
+ * the user's watched tags first
+ * @param watchedTags - IDs of the tags the user watches
+ */
+async function fetchBoostedQuestions(
+  query: FilterQuery<typeof Question>,
+  sortCriteria: SortCriteria,
+  skip: number,
+  limit: number,
+  watchedTags: Types.ObjectId[]
+) {
+  const boosted = await Question.aggregate([
+    { $match: await toAggregationMatch(query) },
+    { $addFields: { watchedTags: { $size: { $setIntersection: ['$tags', watchedTags] } } } },
+    { $sort: { watchedTags: -1, ...sortCriteria } },
+    { $skip: skip },
+    { $limit: limit },
+    { $project: { watchedTags: 0 } },
+  ]);
+
+  return Question.populate(boosted, [
+    { path: 'tags', select: 'name' },
+    { path: 'author', select: 'name image' },
+  ]);
 }
 
 /**
@@ -1,6 +1,8 @@
 'use server';
 
-import { Answer } from '@/database';
+import { Types } from 'mongoose';
+
+import { Answer, Question } from '@/database';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
@@ -17,6 +19,8 @@ type SortCriteria = Record<string, SortOrder>;
 
 /**
  * Retrieves paginated and filtered answers for a specific question.
+ * The accepted answer, if any, is always pinned to the top of the first page,
+ * whatever sort is active.
  * @param params - Parameters for filtering and pagination.
  * @returns Promise with answers, pagination info, and total count.
  */
@@ -28,15 +32,20 @@ export async function getAnswers(params: GetAnswersParams): Promise<ActionRespon
 
   try {
     const { questionId, page = 1, pageSize = 10, filter } = params;
-    const paginationOptions = getPaginationOptions(page, pageSize);
     const sortCriteria = getSortCriteria(filter);
 
-    const [answers, totalAnswers] = await Promise.all([
-      fetchAnswers(questionId, paginationOptions, sortCriteria),
+    const question = await Question.findById(questionId).select('acceptedAnswer');
+    const acceptedAnswerId: Types.ObjectId | null = question?.acceptedAnswer ?? null;
+    const paginationOptions = getPaginationOptions(page, pageSize, acceptedAnswerId ? 1 : 0);
+
+    const [acceptedAnswer, otherAnswers, totalAnswers] = await Promise.all([
+      page === 1 && acceptedAnswerId ? fetchAnswer(acceptedAnswerId) : null,
+      fetchAnswers(questionId, paginationOptions, sortCriteria, acceptedAnswerId),
       Answer.countDocuments({ question: questionId }),
     ]);
 
-    const isNext = hasNextPage(totalAnswers, paginationOptions.skip, answers.length);
+    const answers = acceptedAnswer ? [acceptedAnswer, ...otherAnswers] : otherAnswers;
+    const isNext = hasNextPage(totalAnswers, (page - 1) * pageSize, answers.length);
 
     return {
       success: true,
@@ -65,13 +74,20 @@ async function validateParams(params: GetAnswersParams) {
 
 /**
  * Calculates pagination options based on page and pageSize.
+ * Pinned answers take up slots on the first page, so the remaining
+ * answers are shifted by the number of pinned ones.
  * @param page - Current page number.
  * @param pageSize - Number of items per page.
+ * @param pinned - Number of answers pinned to the top of the first page.
  * @returns Pagination options.
  */
-function getPaginationOptions(page: number, pageSize: number) {
+function getPaginationOptions(page: number, pageSize: number, pinned = 0) {
+  if (page === 1) {
+    return { skip: 0, limit: pageSize - pinned };
+  }
+
   return {
-    skip: (page - 1) * pageSize,
+    skip: (page - 1) * pageSize - pinned,
     limit: pageSize,
   };
 }
@@ -92,19 +108,35 @@ function getSortCriteria(filter?: string): SortCriteria {
   return sortOptions[filter as keyof typeof sortOptions] || sortOptions.default;
 }
 
+/**
+ * Fetches a single answer with its author.
+ * @param answerId - ID of the answer.
+ * @returns Fetched answer or null.
+ */
+async function fetchAnswer(answerId: Types.ObjectId) {
+  return Answer.findById(answerId).populate('author', '_id name image');
+}
+
 /**
  * Fetches answers from the database with pagination and sorting.
  * @param questionId - ID of the question.
  * @param pagination - Pagination options.
  * @param sortCriteria - Sort criteria.
+ * @param excludeId - ID of an answer to leave out (the pinned accepted answer).
  * @returns Fetched answers.
  */
 async function fetchAnswers(
   questionId: string,
   pagination: { skip: number; limit: number },
-  sortCriteria: SortCriteria
+  sortCriteria: SortCriteria,
+  excludeId: Types.ObjectId | null = null
 ) {
-  return Answer.find({ question: questionId })
+  // A limit of 0 means "no limit" in MongoDB, so return early instead
+  if (pagination.limit <= 0) return [];
+
+  const query = excludeId ? { question: questionId, _id: { $ne: excludeId } } : { question: questionId };
+
+  return Answer.find(query)
     .populate('author', '_id name image')
     .sort(sortCriteria)
     .skip(pagination.skip)
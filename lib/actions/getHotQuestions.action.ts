@@ -0,0 +1,111 @@
+'use server';
+
+import { Types } from 'mongoose';
+import { unstable_cache as unstableCache } from 'next/cache';
+
+import { CACHE_TAGS } from '@/constants/cache';
+import { Answer, Interaction, Question, Vote } from '@/database';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+
+// How long the ranking is cached before it is recomputed
+const HOT_QUESTIONS_REVALIDATE_SECONDS = 60 * 60;
+// Only activity within this window counts towards the ranking
+const HOT_QUESTIONS_WINDOW_DAYS = 7;
+const HOT_QUESTIONS_LIMIT = 5;
+
+// Points per recent activity on a question
+const ACTIVITY_WEIGHTS = {
+  view: 1,
+  upvote: 3,
+  downvote: -1,
+  answer: 5,
+};
+
+type HotQuestion = Pick<Question, '_id' | 'title'>;
+
+/**
+ * Retrieves the questions with the most activity over the last week
+ *
+ * Questions are scored by their recent views, votes and answers (see
+ * ACTIVITY_WEIGHTS). When there is not enough recent activity, the list is
+ * filled up with the most upvoted and viewed questions of all time.
+ *
+ * The ranking is cached and recomputed at most once per hour, or as soon as a
+ * question is edited or deleted.
+ *
+ * Example:
+ * const { data } = await getHotQuestions();
+ * → [{ _id: "123", title: "How to use React Query?" }, ...]
+ */
+export async function getHotQuestions(): Promise<ActionResponse<HotQuestion[]>> {
+  const validationResult = await action({});
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  try {
+    return { success: true, data: await getCachedHotQuestions() };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+const getCachedHotQuestions = unstableCache(
+  async (): Promise<HotQuestion[]> => JSON.parse(JSON.stringify(await rankHotQuestions())),
+  ['hot-questions'],
+  { revalidate: HOT_QUESTIONS_REVALIDATE_SECONDS, tags: [CACHE_TAGS.HOT_QUESTIONS] }
+);
+
+/**
+ * Scores questions by their activity within the ranking window
+ * @returns The highest scoring questions, topped up with all-time favourites
+ */
+async function rankHotQuestions() {
+  const since = new Date(Date.now() - HOT_QUESTIONS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const [views, votes, answers] = await Promise.all([
+    Interaction.aggregate<{ _id: Types.ObjectId; count: number }>([
+      // Interactions are kept once per user, so this counts the users who viewed the question lately
+      { $match: { action: 'view', actionType: 'question', updatedAt: { $gte: since } } },
+      { $group: { _id: '$actionId', count: { $sum: 1 } } },
+    ]),
+    Vote.aggregate<{ _id: { question: Types.ObjectId; voteType: 'upvote' | 'downvote' }; count: number }>([
+      { $match: { actionType: 'question', createdAt: { $gte: since } } },
+      { $group: { _id: { question: '$actionId', voteType: '$voteType' }, count: { $sum: 1 } } },
+    ]),
+    Answer.aggregate<{ _id: Types.ObjectId; count: number }>([
+      { $match: { createdAt: { $gte: since } } },
+      { $group: { _id: '$question', count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const scores = new Map<string, number>();
+  const addScore = (questionId: Types.ObjectId, points: number) =>
+    scores.set(questionId.toString(), (scores.get(questionId.toString()) ?? 0) + points);
+
+  views.forEach(({ _id, count }) => addScore(_id, count * ACTIVITY_WEIGHTS.view));
+  votes.forEach(({ _id, count }) => addScore(_id.question, count * ACTIVITY_WEIGHTS[_id.voteType]));
+  answers.forEach(({ _id, count }) => addScore(_id, count * ACTIVITY_WEIGHTS.answer));
+
+  const hotIds = Array.from(scores)
+    .filter(([, score]) => score > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([id]) => id);
+
+  // Deleted questions may still have activity, so look them up before cutting the list
+  const hotQuestions = await Question.find({ _id: { $in: hotIds } }, { title: 1 }).lean<HotQuestion[]>();
+  const ranked = hotQuestions
+    .sort((a, b) => hotIds.indexOf(a._id.toString()) - hotIds.indexOf(b._id.toString()))
+    .slice(0, HOT_QUESTIONS_LIMIT);
+
+  if (ranked.length === HOT_QUESTIONS_LIMIT) return ranked;
+
+  const fallback = await Question.find({ _id: { $nin: ranked.map(question => question._id) } }, { title: 1 })
+    .sort({ upvotes: -1, views: -1, answers: -1 })
+    .limit(HOT_QUESTIONS_LIMIT - ranked.length)
+    .lean<HotQuestion[]>();
+
+  return [...ranked, ...fallback];
+}
@@ -2,10 +2,12 @@
 
 import { ZodSchema } from 'zod';
 
+import { auth } from '@/auth';
 import Question from '@/database/question.model';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
+import { recordInteraction } from '../interactions';
 import { GetQuestionSchema } from '../validations';
 
 /**
@@ -22,6 +24,7 @@ async function validateGetQuestion<T>(params: T) {
 /**
  * Retrieves a question by ID with populated tags
  * Simple read operation with validation and error handling
+ * Counted views of signed-in users are recorded as interactions for recommendations
  */
 export async function getQuestion(
   params: GetQuestionParams & { incrementView?: boolean }
@@ -41,6 +44,11 @@ export async function getQuestion(
 
     if (!question) throw new Error('Question not found');
 
+    if (incrementView) {
+      const session = await auth();
+      if (session?.user?.id) await recordInteraction(session.user.id, 'view', question._id);
+    }
+
     return { success: true, data: JSON.parse(JSON.stringify(question)) };
   } catch (error) {
     return handleError(error) as ErrorResponse;
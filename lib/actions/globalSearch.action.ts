@@ -0,0 +1,188 @@
+'use server';
+
+import { Model, PopulateOptions, Types } from 'mongoose';
+import { ZodSchema } from 'zod';
+
+import ROUTES from '@/constants/routes';
+import { SEARCHABLE_TYPES, SearchableType } from '@/constants/search';
+import { Answer, Question, Tag, User } from '@/database';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { resolveTextSearch, SortCriteria, withRelevance } from '../search';
+import { toPlainExcerpt } from '../utils';
+import { GlobalSearchSchema } from '../validations';
+
+// Length of the plain-text excerpt shown under question and answer hits
+const EXCERPT_LENGTH = 120;
+
+interface SearchWindow {
+  query: string;
+  skip: number;
+  limit: number;
+}
+
+interface SearchPage {
+  results: GlobalSearchResult[];
+  total: number;
+}
+
+/**
+ * Finds one page of documents matching the search, best matches first
+ * @param model - Model with a text index over the searched fields
+ * @param fallbackFields - Fields to substring-match when the text index finds nothing
+ * @param defaultSort - Order of results that are equally relevant
+ */
+async function findMatches<T, R>(
+  model: Model<T>,
+  fallbackFields: string[],
+  defaultSort: SortCriteria,
+  { query, skip, limit }: SearchWindow,
+  populate?: PopulateOptions
+): Promise<{ documents: R[]; total: number }> {
+  const search = await resolveTextSearch(model, {}, query, fallbackFields);
+
+  const find = model.find(search.query).sort(withRelevance(search, defaultSort)).skip(skip).limit(limit);
+  const [total, documents] = await Promise.all([
+    model.countDocuments(search.query),
+    (populate ? find.populate(populate) : find).lean<R[]>(),
+  ]);
+
+  return { documents, total };
+}
+
+// One searcher per type, each turning its matches into typed hits
+const SEARCHERS: Record<SearchableType, (window: SearchWindow) => Promise<SearchPage>> = {
+  question: async window => {
+    const { documents, total } = await findMatches<unknown, { _id: Types.ObjectId; title: string; content: string }>(
+      Question,
+      ['title', 'content'],
+      { createdAt: -1 },
+      window
+    );
+
+    return {
+      total,
+      results: documents.map(({ _id, title, content }) => ({
+        type: 'question',
+        id: _id.toString(),
+        title,
+        excerpt: toPlainExcerpt(content, EXCERPT_LENGTH),
+        href: ROUTES.QUESTION(_id.toString()),
+      })),
+    };
+  },
+
+  answer: async window => {
+    const { documents, total } = await findMatches<
+      unknown,
+      { _id: Types.ObjectId; content: string; question: { _id: Types.ObjectId; title: string } | null }
+    >(Answer, ['content'], { upvotes: -1 }, window, { path: 'question', select: 'title' });
+
+    return {
+      total,
+      // Answers whose question was deleted have nowhere to link to
+      results: documents
+        .filter(({ question }) => question)
+        .map(({ _id, content, question }) => ({
+          type: 'answer',
+          id: _id.toString(),
+          title: question!.title,
+          excerpt: toPlainExcerpt(content, EXCERPT_LENGTH),
+          href: ROUTES.QUESTION(question!._id.toString()),
+        })),
+    };
+  },
+
+  user: async window => {
+    const { documents, total } = await findMatches<unknown, { _id: Types.ObjectId; name: string; username: string }>(
+      User,
+      ['name', 'username'],
+      { reputation: -1 },
+      window
+    );
+
+    return {
+      total,
+      results: documents.map(({ _id, name, username }) => ({
+        type: 'user',
+        id: _id.toString(),
+        title: name,
+        excerpt: `@${username}`,
+        href: ROUTES.PROFILE(_id.toString()),
+      })),
+    };
+  },
+
+  tag: async window => {
+    const { documents, total } = await findMatches<unknown, { _id: Types.ObjectId; name: string; questions?: number }>(
+      Tag,
+      ['name'],
+      { questions: -1 },
+      window
+    );
+
+    return {
+      total,
+      results: documents.map(({ _id, name, questions = 0 }) => ({
+        type: 'tag',
+        id: _id.toString(),
+        title: name,
+        excerpt: `${questions} question${questions === 1 ? '' : 's'}`,
+        href: ROUTES.TAG(_id.toString()),
+      })),
+    };
+  },
+};
+
+/**
+ * Searches questions, answers, users and tags at once
+ *
+ * With a type, returns one page of hits of that type. Without one, returns
+ * the top `pageSize` hits of every type, grouped in SEARCHABLE_TYPES order;
+ * `page` is ignored and `isNext` reports whether any type has more hits.
+ *
+ * @param params - Search term, optional type filter and pagination
+ *
+ * Example:
+ * await globalSearch({ query: "react", type: "tag" })
+ * → { results: [{ type: "tag", id: "123", title: "react", excerpt: "42 questions", href: "/tags/123" }], isNext: false }
+ */
+export async function globalSearch(
+  params: GlobalSearchParams
+): Promise<ActionResponse<{ results: GlobalSearchResult[]; isNext: boolean }>> {
+  const validationResult = await action({
+    params,
+    schema: GlobalSearchSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { query, type, page = 1, pageSize = 10 }: GlobalSearchParams = validationResult.params!;
+
+  try {
+    if (type) {
+      const skip = (Number(page) - 1) * Number(pageSize);
+      const { results, total } = await SEARCHERS[type]({ query: query.trim(), skip, limit: Number(pageSize) });
+
+      return { success: true, data: { results, isNext: total > skip + results.length } };
+    }
+
+    const pages = await Promise.all(
+      SEARCHABLE_TYPES.map(searchType =>
+        SEARCHERS[searchType]({ query: query.trim(), skip: 0, limit: Number(pageSize) })
+      )
+    );
+
+    return {
+      success: true,
+      data: {
+        results: pages.flatMap(({ results }) => results),
+        isNext: pages.some(({ results, total }) => total > results.length),
+      },
+    };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
@@ -0,0 +1,41 @@
+'use server';
+
+import { auth } from '@/auth';
+import { Privilege, PRIVILEGES } from '@/constants/privileges';
+import { User } from '@/database';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { getSessionRole, hasPrivilege } from '../permissions';
+
+/**
+ * Reports which reputation-gated privileges the current user has earned
+ * Signed-out visitors have none of them.
+ *
+ * Example:
+ * const { data } = await getPrivileges();
+ * → { commentEverywhere: true, downvote: true, createTags: false, editOthersPosts: false }
+ */
+export async function getPrivileges(): Promise<ActionResponse<Record<Privilege, boolean>>> {
+  const validationResult = await action({});
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  try {
+    const session = await auth();
+    const user = session?.user?.id ? await User.findById(session.user.id, { reputation: 1 }) : null;
+    const role = getSessionRole(session);
+
+    const privileges = Object.fromEntries(
+      (Object.keys(PRIVILEGES) as Privilege[]).map(privilege => [
+        privilege,
+        !!user && hasPrivilege(role, user.reputation ?? 0, privilege),
+      ])
+    ) as Record<Privilege, boolean>;
+
+    return { success: true, data: privileges };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
@@ -0,0 +1,123 @@
+'use server';
+
+import { Types } from 'mongoose';
+import { ZodSchema } from 'zod';
+
+import { Tag, TagCooccurrence } from '@/database';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { rebuildTagCooccurrence } from '../tag-cooccurrence';
+import { findTagByName, resolveTagNames } from '../tags';
+import { GetFrequentlyUsedWithSchema, GetRelatedTagsSchema } from '../validations';
+
+/**
+ * Retrieves the tags that most often appear on the same questions as a tag
+ *
+ * Example:
+ * await getRelatedTags({ tagId: "reactId" });
+ * → [{ _id: "1", name: "nextjs", questions: 80, count: 35 }, { _id: "2", name: "redux", questions: 40, count: 22 }]
+ */
+export async function getRelatedTags(params: GetRelatedTagsParams): Promise<ActionResponse<RelatedTag[]>> {
+  const validationResult = await action({
+    params,
+    schema: GetRelatedTagsSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId, limit = 10 }: GetRelatedTagsParams = validationResult.params!;
+
+  try {
+    const rows = await TagCooccurrence.find({ tag: tagId }, { related: 1, count: 1 })
+      .sort({ count: -1 })
+      .limit(limit)
+      .populate<{ related: Tag | null }>('related', 'name questions')
+      .lean<Array<{ related: Tag | null; count: number }>>();
+
+    const relatedTags = rows
+      .filter(({ related }) => related)
+      .map(({ related, count }) => ({ ...related!, questions: related!.questions ?? 0, count }));
+
+    return { success: true, data: JSON.parse(JSON.stringify(relatedTags)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Suggests tags that are frequently used together with the tags of a question draft
+ * Counts are summed over the given tags, which are left out of the suggestions.
+ * Synonyms are resolved, and tags that do not exist yet are ignored.
+ *
+ * Example:
+ * await getFrequentlyUsedWith({ tags: ["react", "nextjs"] });
+ * → [{ _id: "1", name: "typescript", questions: 120, count: 48 }, ...]
+ */
+export async function getFrequentlyUsedWith(
+  params: GetFrequentlyUsedWithParams
+): Promise<ActionResponse<RelatedTag[]>> {
+  const validationResult = await action({
+    params,
+    schema: GetFrequentlyUsedWithSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tags, limit = 5 }: GetFrequentlyUsedWithParams = validationResult.params!;
+
+  try {
+    const names = await resolveTagNames(tags);
+    const selected = (await Promise.all(names.map(name => findTagByName(name)))).filter(Boolean);
+    if (selected.length === 0) return { success: true, data: [] };
+
+    const selectedIds = selected.map(tag => tag._id);
+    const totals: Array<{ _id: Types.ObjectId; count: number }> = await TagCooccurrence.aggregate([
+      { $match: { tag: { $in: selectedIds }, related: { $nin: selectedIds } } },
+      { $group: { _id: '$related', count: { $sum: '$count' } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+
+    const relatedTags = await Tag.find(
+      { _id: { $in: totals.map(total => total._id) } },
+      { name: 1, questions: 1 }
+    ).lean<Array<{ _id: Types.ObjectId; name: string; questions: number }>>();
+    const tagsById = new Map(relatedTags.map(tag => [tag._id.toString(), tag]));
+
+    const suggestions = totals
+      .filter(({ _id }) => tagsById.has(_id.toString()))
+      .map(({ _id, count }) => ({ ...tagsById.get(_id.toString())!, count }));
+
+    return { success: true, data: JSON.parse(JSON.stringify(suggestions)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Rebuilds the related tags statistics from the tags of every question
+ * Use this to fill the statistics for existing questions, or to repair them
+ * if they ever drift. Only available to admins.
+ * @returns Number of tag pairs, counted once per direction
+ *
+ * Example:
+ * const { data } = await rebuildAllTagCooccurrence();
+ * → { pairs: 310 }
+ */
+export async function rebuildAllTagCooccurrence(): Promise<ActionResponse<{ pairs: number }>> {
+  const validationResult = await action({ permission: 'rebuildTagCooccurrence' });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  try {
+    const pairs = await rebuildTagCooccurrence();
+
+    return { success: true, data: { pairs } };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
@@ -0,0 +1,30 @@
+'use server';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { rebuildReputation } from '../reputation';
+
+/**
+ * Recomputes every user's reputation from the reputation ledger
+ * Use this to repair User.reputation if it ever drifts from the recorded events.
+ * Only available to admins.
+ * @returns Number of users whose reputation was recomputed
+ *
+ * Example:
+ * const { data } = await rebuildAllReputation();
+ * → { users: 42 }
+ */
+export async function rebuildAllReputation(): Promise<ActionResponse<{ users: number }>> {
+  const validationResult = await action({ permission: 'rebuildReputation' });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  try {
+    const users = await rebuildReputation();
+
+    return { success: true, data: { users } };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
@@ -0,0 +1,41 @@
+'use server';
+
+import { ZodSchema } from 'zod';
+
+import Revision from '@/database/revision.model';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { GetQuestionSchema } from '../validations';
+
+/**
+ * Retrieves the revision history of a question, newest revision first
+ * @param params - Object containing the question ID
+ * @returns Every stored revision with its author
+ *
+ * Example:
+ * await getQuestionRevisions({ questionId: "123" });
+ * → [{ revision: 3, title: "...", tags: ["react"], summary: "Fixed typo", ... }, ...]
+ */
+export async function getQuestionRevisions(params: GetQuestionParams): Promise<ActionResponse<Revision[]>> {
+  const validationResult = await action({
+    params,
+    schema: GetQuestionSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { questionId } = validationResult.params!;
+
+  try {
+    const revisions = await Revision.find({ question: questionId })
+      .sort({ revision: -1 })
+      .populate('author', '_id name image')
+      .lean();
+
+    return { success: true, data: JSON.parse(JSON.stringify(revisions)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
@@ -1,17 +1,25 @@
 'use server';
 
-import { FilterQuery, SortOrder } from 'mongoose';
+import { SortOrder, Types } from 'mongoose';
+import { revalidatePath, revalidateTag, unstable_cache as unstableCache } from 'next/cache';
 import { ZodSchema } from 'zod';
 
-import { Tag } from '@/database';
+import { CACHE_TAGS } from '@/constants/cache';
+import ROUTES from '@/constants/routes';
+import { Tag, TagSynonym } from '@/database';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
-import { PaginatedSearchParamsSchema } from '../validations';
+import { NotFoundError, ValidationError } from '../http-errors';
+import { resolveTextSearch, SortCriteria, TextSearch, withRelevance } from '../search';
+import { escapeRegExp } from '../utils';
+import { EditTagSchema, GetTagSchema, PaginatedSearchParamsSchema, SearchTagsSchema } from '../validations';
 
-// Types
-type SortCriteria = { [key: string]: SortOrder };
+// How long the popular tags are cached before they are recomputed
+const POPULAR_TAGS_REVALIDATE_SECONDS = 60 * 60;
+const POPULAR_TAGS_LIMIT = 5;
 
+// Types
 interface SearchParams {
   page?: number;
   pageSize?: number;
@@ -19,6 +27,13 @@ interface SearchParams {
   filter?: string;
 }
 
+interface TagSuggestionFields {
+  _id: Types.ObjectId;
+  name: string;
+  questions: number;
+  excerpt?: string;
+}
+
 // Helper methods
 const getSortOrder = (filter?: string): SortCriteria => {
   // Define how documents should be sorted based on filter option
@@ -34,12 +49,12 @@ const getSortOrder = (filter?: string): SortCriteria => {
   return sortOrders[filter ?? 'popular'];
 };
 
-const getSearchQuery = (query?: string): FilterQuery<typeof Tag> => {
-  // If search query exists, create a MongoDB regex search
-  // $regex: query -> Matches pattern in the string
-  // $options: 'i' -> Case insensitive search
-  // Example: if query is "java", it will match "Java", "JAVA", "javascript", etc.
-  return query ? { name: { $regex: query, $options: 'i' } } : {};
+const getSearchQuery = (query?: string): Promise<TextSearch<typeof Tag>> => {
+  // If search query exists, search the tag text index first
+  // Whole words match through the index: "java" finds "Java" and "JAVA"
+  // Partial words fall back to an escaped, case-insensitive substring match:
+  // "jav" matches "Java" and "javascript", "c++" matches "c++" literally
+  return resolveTextSearch(Tag, {}, query, ['name']);
 };
 
 const getPagination = (page: number = 1, pageSize: number = 10) => {
@@ -69,8 +84,10 @@ export const getTags = async (params: SearchParams): Promise<ActionResponse<{ ta
   try {
     const { page, pageSize, query, filter } = params;
     const { skip, limit } = getPagination(page, pageSize);
-    const filterQuery = getSearchQuery(query);
-    const sortBy = getSortOrder(filter);
+    const search = await getSearchQuery(query);
+    const filterQuery = search.query;
+    // Without an explicit sort, the best matches come first
+    const sortBy = filter ? getSortOrder(filter) : withRelevance(search, getSortOrder(filter));
 
     // Promise.all executes both queries concurrently for better performance
     const [totalTags, tags] = await Promise.all([
@@ -81,7 +98,8 @@ export const getTags = async (params: SearchParams): Promise<ActionResponse<{ ta
       // .sort(): Orders the results based on sortBy criteria
       // .skip(): Skips documents for pagination
       // .limit(): Restricts number of returned documents
-      Tag.find(filterQuery).sort(sortBy).skip(skip).limit(limit),
+      // The wiki is only shown on the tag page, so it is left out of listings
+      Tag.find(filterQuery, { wiki: 0 }).sort(sortBy).skip(skip).limit(limit),
     ]);
 
     // Calculate if there are more pages
@@ -101,3 +119,195 @@ export const getTags = async (params: SearchParams): Promise<ActionResponse<{ ta
     return handleError(error) as ErrorResponse;
   }
 };
+
+/**
+ * Retrieves a single tag, including its excerpt and wiki
+ *
+ * Example:
+ * await getTag({ tagId: "123" });
+ * → { _id: "123", name: "react", questions: 42, excerpt: "...", wiki: "..." }
+ */
+export const getTag = async (params: GetTagParams): Promise<ActionResponse<Tag>> => {
+  const validationResult = await action({
+    params,
+    schema: GetTagSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId } = validationResult.params!;
+
+  try {
+    const tag = await Tag.findById(tagId);
+    if (!tag) throw new NotFoundError('Tag');
+
+    return { success: true, data: JSON.parse(JSON.stringify(tag)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+};
+
+/**
+ * Suggests existing tags while an author types, for the tag autocomplete
+ *
+ * An exact match comes first, then tags whose name starts with the query, then
+ * tags found through one of their synonyms, each group ordered by popularity.
+ * Tags that merely contain the query only fill the remaining slots.
+ *
+ * Example:
+ * await searchTags({ query: "js" });
+ * → [{ _id: "1", name: "javascript", questions: 200, synonym: "js" }, { _id: "2", name: "jsx", questions: 12 }]
+ */
+export const searchTags = async (params: SearchTagsParams): Promise<ActionResponse<TagSuggestion[]>> => {
+  const validationResult = await action({
+    params,
+    schema: SearchTagsSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { query, limit = 5 }: SearchTagsParams = validationResult.params!;
+  const normalized = query.trim().toLowerCase();
+  const term = escapeRegExp(normalized);
+  const fields = { name: 1, questions: 1, excerpt: 1 };
+  const byPopularity = { questions: -1 as SortOrder, name: 1 as SortOrder };
+
+  try {
+    const [prefixTags, synonyms] = await Promise.all([
+      Tag.find({ name: { $regex: `^${term}`, $options: 'i' } }, fields)
+        .sort(byPopularity)
+        .limit(limit)
+        .lean<TagSuggestionFields[]>(),
+      // Synonyms are stored in lowercase
+      TagSynonym.find({ name: { $regex: `^${term}` } }, { name: 1, tag: 1 })
+        .limit(limit)
+        .lean<Array<{ name: string; tag: Types.ObjectId }>>(),
+    ]);
+
+    const synonymTags = await Tag.find({ _id: { $in: synonyms.map(synonym => synonym.tag) } }, fields)
+      .sort(byPopularity)
+      .lean<TagSuggestionFields[]>();
+    const containedTags =
+      prefixTags.length + synonymTags.length < limit
+        ? await Tag.find(
+            { name: { $regex: term, $options: 'i' }, _id: { $nin: prefixTags.map(tag => tag._id) } },
+            fields
+          )
+            .sort(byPopularity)
+            .limit(limit)
+            .lean<TagSuggestionFields[]>()
+        : [];
+
+    const aliases = new Map(synonyms.map(synonym => [synonym.tag.toString(), synonym.name]));
+    const candidates = [
+      ...prefixTags.map(tag => ({ tag, synonym: undefined })),
+      ...synonymTags.map(tag => ({ tag, synonym: aliases.get(tag._id.toString()) })),
+      ...containedTags.map(tag => ({ tag, synonym: undefined })),
+    ];
+    const isExact = ({ tag, synonym }: (typeof candidates)[number]) =>
+      (synonym ?? tag.name).toLowerCase() === normalized;
+
+    const seen = new Set<string>();
+    const suggestions: TagSuggestion[] = [...candidates.filter(isExact), ...candidates.filter(c => !isExact(c))]
+      .filter(({ tag }) => {
+        const id = tag._id.toString();
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      })
+      .slice(0, limit)
+      .map(({ tag, synonym }) => ({
+        _id: tag._id.toString(),
+        name: tag.name,
+        questions: tag.questions,
+        excerpt: tag.excerpt || undefined,
+        synonym,
+      }));
+
+    return { success: true, data: suggestions };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+};
+
+/**
+ * Renames a tag
+ * Only moderators are allowed to edit tags. Tag names stay unique regardless of case,
+ * and cannot take the name of another tag's synonym.
+ *
+ * Example:
+ * await editTag({ tagId: "123", name: "nextjs" });
+ */
+export const editTag = async (params: EditTagParams): Promise<ActionResponse<Tag>> => {
+  const validationResult = await action({
+    params,
+    schema: EditTagSchema as ZodSchema,
+    permission: 'editTags',
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId } = validationResult.params!;
+  // action() returns the params as sent, without the schema's trim applied
+  const name = validationResult.params!.name.trim();
+
+  try {
+    const duplicate = await Tag.exists({
+      _id: { $ne: tagId },
+      name: { $regex: new RegExp(`^${escapeRegExp(name)}$`, 'i') },
+    });
+    if (duplicate) throw new ValidationError({ name: ['A tag with this name already exists'] });
+
+    const synonym = await TagSynonym.exists({ name: name.toLowerCase(), tag: { $ne: tagId } });
+    if (synonym) throw new ValidationError({ name: ['This name is a synonym of another tag'] });
+
+    const tag = await Tag.findByIdAndUpdate(tagId, { name }, { new: true });
+    if (!tag) throw new NotFoundError('Tag');
+
+    revalidatePath(ROUTES.TAGS);
+    revalidatePath(ROUTES.TAG(tagId));
+    revalidateTag(CACHE_TAGS.POPULAR_TAGS);
+
+    return { success: true, data: JSON.parse(JSON.stringify(tag)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+};
+
+/**
+ * Retrieves the tags used by the most questions
+ * Cached and recomputed at most once per hour, or as soon as tags are renamed or merged
+ * or a question is edited or deleted.
+ *
+ * Example:
+ * const { data } = await getPopularTags();
+ * → [{ _id: "1", name: "javascript", questions: 200 }, ...]
+ */
+export const getPopularTags = async (): Promise<ActionResponse<Tag[]>> => {
+  const validationResult = await action({});
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  try {
+    return { success: true, data: await getCachedPopularTags() };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+};
+
+const getCachedPopularTags = unstableCache(
+  async (): Promise<Tag[]> => {
+    const tags = await Tag.find({ questions: { $gt: 0 } }, { name: 1, questions: 1 })
+      .sort({ questions: -1, name: 1 })
+      .limit(POPULAR_TAGS_LIMIT)
+      .lean();
+
+    return JSON.parse(JSON.stringify(tags));
+  },
+  ['popular-tags'],
+  { revalidate: POPULAR_TAGS_REVALIDATE_SECONDS, tags: [CACHE_TAGS.POPULAR_TAGS] }
+);
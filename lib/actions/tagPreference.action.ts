@@ -0,0 +1,134 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { ZodSchema } from 'zod';
+
+import { auth } from '@/auth';
+import ROUTES from '@/constants/routes';
+import { Tag, TagPreference, User } from '@/database';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { NotFoundError } from '../http-errors';
+import { SetHideIgnoredTagsSchema, SetTagPreferenceSchema } from '../validations';
+
+/**
+ * Retrieves the tags the current user watches and ignores, in alphabetical order
+ * Signed-out visitors have no preferences.
+ *
+ * Example:
+ * const { data } = await getTagPreferences();
+ * → { watched: [{ _id: "1", name: "mongoose" }, { _id: "2", name: "nextjs" }], ignored: [{ _id: "3", name: "php" }], hideIgnored: false }
+ */
+export async function getTagPreferences(): Promise<ActionResponse<TagPreferences>> {
+  const validationResult = await action({});
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) return { success: true, data: { watched: [], ignored: [], hideIgnored: false } };
+
+    const [preferences, user] = await Promise.all([
+      TagPreference.find({ user: userId })
+        .populate<{ tag: Tag | null }>('tag', 'name questions')
+        .lean<Array<{ tag: Tag | null; preference: TagPreferenceKind }>>(),
+      User.findById(userId, { hideIgnoredTags: 1 }),
+    ]);
+
+    // Tags deleted after their last question went away leave empty references behind
+    const tagsWith = (kind: TagPreferenceKind) =>
+      preferences
+        .filter(({ tag, preference }) => tag && preference === kind)
+        .map(({ tag }) => tag!)
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      success: true,
+      data: JSON.parse(
+        JSON.stringify({
+          watched: tagsWith('watched'),
+          ignored: tagsWith('ignored'),
+          hideIgnored: !!user?.hideIgnoredTags,
+        })
+      ),
+    };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Watches or ignores a tag for the current user, or clears the preference
+ * Watching a tag that was ignored replaces the preference, and vice versa.
+ *
+ * Example:
+ * await setTagPreference({ tagId: "123", preference: "watched" });
+ * await setTagPreference({ tagId: "123", preference: null });
+ */
+export async function setTagPreference(
+  params: SetTagPreferenceParams
+): Promise<ActionResponse<{ preference: TagPreferenceKind | null }>> {
+  const validationResult = await action({
+    params,
+    schema: SetTagPreferenceSchema as ZodSchema,
+    authorize: true,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId, preference }: SetTagPreferenceParams = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  try {
+    if (preference) {
+      if (!(await Tag.exists({ _id: tagId }))) throw new NotFoundError('Tag');
+
+      await TagPreference.findOneAndUpdate({ user: userId, tag: tagId }, { preference }, { upsert: true });
+    } else {
+      await TagPreference.deleteOne({ user: userId, tag: tagId });
+    }
+
+    revalidatePath(ROUTES.HOME);
+    revalidatePath(ROUTES.TAGS);
+    revalidatePath(ROUTES.TAG(tagId));
+
+    return { success: true, data: { preference } };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Chooses whether questions with ignored tags are hidden from the home feed or only dimmed
+ *
+ * Example:
+ * await setHideIgnoredTags({ hide: true });
+ */
+export async function setHideIgnoredTags(params: SetHideIgnoredTagsParams): Promise<ActionResponse> {
+  const validationResult = await action({
+    params,
+    schema: SetHideIgnoredTagsSchema as ZodSchema,
+    authorize: true,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { hide }: SetHideIgnoredTagsParams = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  try {
+    await User.findByIdAndUpdate(userId, { hideIgnoredTags: hide });
+
+    revalidatePath(ROUTES.HOME);
+    revalidatePath(ROUTES.TAGS);
+
+    return { success: true };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
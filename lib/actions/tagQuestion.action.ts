@@ -1,19 +1,19 @@
 'use server';
 
-import { FilterQuery, SortOrder } from 'mongoose';
+import { FilterQuery } from 'mongoose';
 import { ZodSchema } from 'zod';
 
 import { Question, Tag } from '@/database';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
+import { getHighlightTerms, withHighlights } from '../highlight';
+import { resolveTextSearch, SortCriteria, TextSearch, withRelevance } from '../search';
 import { GetTagQuestionsSchema } from '../validations';
 
 // ==============================
 // Type Definitions
 // ==============================
-type SortCriteria = { [key: string]: SortOrder };
-
 interface GetTagQuestionsParams {
   tagId: string;
   page?: number;
@@ -40,7 +40,7 @@ const QUESTION_POPULATE_CONFIG = [
   { path: 'tags', select: 'name' },
 ];
 
-const QUESTION_SELECT_FIELDS = '_id title views answers upvotes downvotes author createdAt';
+const QUESTION_SELECT_FIELDS = '_id title views answers upvotes downvotes author acceptedAnswer createdAt';
 
 // ==============================
 // Helper Functions
@@ -56,31 +56,26 @@ const getSortOrder = (filter?: string): SortCriteria => {
 };
 
 /**
- * Builds a MongoDB query to search questions by tag and optional title search
+ * Builds a MongoDB query to search questions by tag and optional text search
  * @example
  * Without search query:
  * getSearchQuery("tagId123")
- * Returns: { tags: { $in: ["tagId123"] } }
+ * Returns: { query: { tags: { $in: ["tagId123"] } }, ranked: false }
  *
  * With search query:
  * getSearchQuery("tagId123", "react")
- * Returns: { tags: { $in: ["tagId123"] }, title: { $regex: "react", $options: "i" } }
+ * Returns: { query: { tags: { $in: ["tagId123"] }, $text: { $search: "react" } }, ranked: true }
  */
-const getSearchQuery = (tagId: string, query?: string): FilterQuery<typeof Question> => {
+const getSearchQuery = (tagId: string, query?: string): Promise<TextSearch<typeof Question>> => {
   // Create base query to find questions that have the specified tag
   // $in operator checks if tagId exists in the tags array of the question
   const baseQuery: FilterQuery<typeof Question> = {
     tags: { $in: [tagId] },
   };
 
-  // If search query exists, add title search condition
-  // $regex enables partial matching (e.g., "react" matches "React.js", "React Native")
-  // $options: 'i' makes the search case-insensitive
-  if (query) {
-    baseQuery.title = { $regex: query, $options: 'i' };
-  }
-
-  return baseQuery;
+  // The text index searches title and content; partial words such as "reac"
+  // fall back to an escaped, case-insensitive match on the title
+  return resolveTextSearch(Question, baseQuery, query, ['title']);
 };
 
 /**
@@ -117,13 +112,15 @@ const findQuestionsWithTag = async (
   filterQuery: FilterQuery<typeof Question>,
   sortBy: SortCriteria,
   skip: number,
-  limit: number
+  limit: number,
+  withContent = false
 ) => {
   return (
     Question.find(filterQuery)
       // Select only necessary fields for performance
       // Reduces data transfer and processing time
-      .select(QUESTION_SELECT_FIELDS)
+      // The body is only loaded when search excerpts are cut from it
+      .select(withContent ? `${QUESTION_SELECT_FIELDS} content` : QUESTION_SELECT_FIELDS)
 
       // Populate replaces IDs with actual data from related collections
       // Like JOIN in SQL but for MongoDB
@@ -157,8 +154,11 @@ export const getTagQuestions = async (
   try {
     const { tagId, page, pageSize, query, filter } = params;
     const { skip, limit } = getPagination(page, pageSize);
-    const filterQuery = getSearchQuery(tagId, query);
-    const sortBy = getSortOrder(filter);
+    const search = await getSearchQuery(tagId, query);
+    const filterQuery = search.query;
+    // Without an explicit sort, the best matches come first
+    const sortBy = filter ? getSortOrder(filter) : withRelevance(search, getSortOrder(filter));
+    const highlightTerms = getHighlightTerms(query ?? '');
 
     // QUERY 1: Find the tag document by its ID
     // findById is a shorthand for findOne({ _id: tagId })
@@ -176,7 +176,7 @@ export const getTagQuestions = async (
 
       // QUERY 3: Get paginated and formatted questions
       // This executes the complex query defined in findQuestionsWithTag
-      findQuestionsWithTag(filterQuery, sortBy, skip, limit),
+      findQuestionsWithTag(filterQuery, sortBy, skip, limit, highlightTerms.length > 0),
     ]);
 
     // Calculate if there are more pages to load
@@ -191,7 +191,7 @@ export const getTagQuestions = async (
       success: true,
       data: {
         tag: JSON.parse(JSON.stringify(tag)),
-        questions: JSON.parse(JSON.stringify(questions)),
+        questions: withHighlights(JSON.parse(JSON.stringify(questions)), highlightTerms),
         isNext,
       },
     };
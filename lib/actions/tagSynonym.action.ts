@@ -0,0 +1,288 @@
+'use server';
+
+import mongoose, { ClientSession, Types } from 'mongoose';
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { ZodSchema } from 'zod';
+
+import { CACHE_TAGS } from '@/constants/cache';
+import ROUTES from '@/constants/routes';
+import { Question, Tag, TagCooccurrence, TagPreference, TagQuestion, TagSynonym } from '@/database';
+import { ITagDoc } from '@/database/tag.model';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { NotFoundError, ValidationError } from '../http-errors';
+import { moveTagRevisions, recordTagRevision } from '../revisions';
+import { recomputeTagCooccurrence } from '../tag-cooccurrence';
+import { findTagByName, resolveTagNames } from '../tags';
+import { escapeRegExp } from '../utils';
+import { AddTagSynonymSchema, GetTagSchema, MergeTagsSchema, RemoveTagSynonymSchema } from '../validations';
+
+/**
+ * Retrieves the synonyms of a tag, in alphabetical order
+ *
+ * Example:
+ * await getTagSynonyms({ tagId: "123" });
+ * → [{ _id: "1", name: "ecmascript", tag: "123" }, { _id: "2", name: "js", tag: "123" }]
+ */
+export async function getTagSynonyms(params: GetTagParams): Promise<ActionResponse<TagSynonym[]>> {
+  const validationResult = await action({
+    params,
+    schema: GetTagSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId } = validationResult.params!;
+
+  try {
+    const synonyms = await TagSynonym.find({ tag: tagId }, { name: 1, tag: 1 }).sort({ name: 1 }).lean();
+
+    return { success: true, data: JSON.parse(JSON.stringify(synonyms)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Records an alias for a tag, so questions tagged with the alias get the tag instead
+ * Only moderators are allowed to manage synonyms. An alias that is already a
+ * tag of its own has to be merged instead.
+ *
+ * Example:
+ * await addTagSynonym({ tagId: "123", name: "js" });
+ */
+export async function addTagSynonym(params: AddTagSynonymParams): Promise<ActionResponse<TagSynonym>> {
+  const validationResult = await action({
+    params,
+    schema: AddTagSynonymSchema as ZodSchema,
+    permission: 'editTags',
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId, name } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+  const alias = name.trim().toLowerCase();
+
+  try {
+    const tag = await Tag.findById(tagId);
+    if (!tag) throw new NotFoundError('Tag');
+
+    if (alias === tag.name.toLowerCase()) {
+      throw new ValidationError({ name: ['A tag cannot be a synonym of itself'] });
+    }
+    if (await findTagByName(alias)) {
+      throw new ValidationError({ name: [`"${name.trim()}" is already a tag. Merge it into ${tag.name} instead`] });
+    }
+    if (await TagSynonym.exists({ name: alias })) {
+      throw new ValidationError({ name: ['This synonym already exists'] });
+    }
+
+    const synonym = await TagSynonym.create({ name: alias, tag: tagId, createdBy: userId });
+
+    revalidatePath(ROUTES.TAG(tagId));
+
+    return { success: true, data: JSON.parse(JSON.stringify(synonym)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Removes a tag synonym
+ * Only moderators are allowed to manage synonyms.
+ */
+export async function removeTagSynonym(params: RemoveTagSynonymParams): Promise<ActionResponse> {
+  const validationResult = await action({
+    params,
+    schema: RemoveTagSynonymSchema as ZodSchema,
+    permission: 'editTags',
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { synonymId } = validationResult.params!;
+
+  try {
+    const synonym = await TagSynonym.findByIdAndDelete(synonymId);
+    if (!synonym) throw new NotFoundError('Synonym');
+
+    revalidatePath(ROUTES.TAG(synonym.tag.toString()));
+
+    return { success: true };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Merges a tag into another one
+ *
+ * 1. Every question tagged with the merged tag gets the target tag instead,
+ *    both in `Question.tags` and in the TagQuestion rows; users watching or
+ *    ignoring the merged tag now watch or ignore the target
+ * 2. The question count and related tags of the target tag are recomputed
+ * 3. The merged tag's wiki history moves to the target (see `mergeTagWiki`)
+ * 4. The merged tag's name, and its synonyms, become synonyms of the target
+ * 5. The merged tag is deleted; its old URL redirects to the target
+ *
+ * Only moderators are allowed to merge tags. Everything runs in one transaction.
+ *
+ * @param params - ID of the tag to merge away and the name of the tag to keep
+ *
+ * Example:
+ * await mergeTags({ tagId: "jsTagId", targetName: "javascript" });
+ */
+export async function mergeTags(params: MergeTagsParams): Promise<ActionResponse<Tag>> {
+  const validationResult = await action({
+    params,
+    schema: MergeTagsSchema as ZodSchema,
+    permission: 'mergeTags',
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId, targetName } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const source = await Tag.findById(tagId).session(session);
+    if (!source) throw new NotFoundError('Tag');
+
+    // Duplicates that only differ in letter case are exactly what merging is for,
+    // so the merged tag itself is excluded from the lookup
+    const [canonicalName] = await resolveTagNames([targetName], session);
+    const target = await Tag.findOne({
+      _id: { $ne: source._id },
+      name: { $regex: `^${escapeRegExp(canonicalName)}$`, $options: 'i' },
+    }).session(session);
+    if (!target) throw new ValidationError({ targetName: [`There is no "${targetName}" tag to merge into`] });
+
+    // Questions carrying both tags keep a single reference to the target
+    await Question.updateMany({ tags: source._id }, { $addToSet: { tags: target._id } }, { session });
+    await Question.updateMany({ tags: source._id }, { $pull: { tags: source._id } }, { session });
+
+    const alreadyTagged = await TagQuestion.distinct('question', { tag: target._id }).session(session);
+    await TagQuestion.deleteMany({ tag: source._id, question: { $in: alreadyTagged } }, { session });
+    await TagQuestion.updateMany({ tag: source._id }, { tag: target._id }, { session });
+    await TagCooccurrence.deleteMany({ $or: [{ tag: source._id }, { related: source._id }] }, { session });
+    await recomputeTagCooccurrence(target._id, session);
+
+    // A preference a user already had for the target wins over the merged one
+    const usersWithPreference = await TagPreference.distinct('user', { tag: target._id }).session(session);
+    await TagPreference.deleteMany({ tag: source._id, user: { $in: usersWithPreference } }, { session });
+    await TagPreference.updateMany({ tag: source._id }, { tag: target._id }, { session });
+
+    target.questions = await Question.countDocuments({ tags: target._id }).session(session);
+    await mergeTagWiki(source, target, userId!, session);
+    await target.save({ session });
+
+    await TagSynonym.updateMany({ tag: source._id }, { tag: target._id }, { session });
+    await TagSynonym.findOneAndUpdate(
+      { name: source.name.toLowerCase() },
+      { tag: target._id, mergedTag: source._id, createdBy: userId },
+      { upsert: true, session }
+    );
+
+    await Tag.findByIdAndDelete(source._id, { session });
+
+    await session.commitTransaction();
+
+    revalidatePath(ROUTES.TAGS);
+    revalidatePath(ROUTES.TAG(tagId));
+    revalidatePath(ROUTES.TAG(target._id.toString()));
+    revalidateTag(CACHE_TAGS.POPULAR_TAGS);
+
+    return { success: true, data: JSON.parse(JSON.stringify(target)) };
+  } catch (error) {
+    await session.abortTransaction();
+    return handleError(error) as ErrorResponse;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Carries the wiki of a merged tag over to the tag it is merged into
+ * The merged tag's revisions are appended to the target's history. A target
+ * without a wiki takes over the merged one; otherwise the target keeps its
+ * own wiki, restored as the latest revision, and the merged wiki stays
+ * available in the history.
+ */
+async function mergeTagWiki(source: ITagDoc, target: ITagDoc, userId: string, session: ClientSession): Promise<void> {
+  const targetId = target._id as Types.ObjectId;
+  const sourceHasWiki = !!(source.excerpt || source.wiki);
+  const targetHasWiki = !!(target.excerpt || target.wiki);
+
+  const moved = await moveTagRevisions(source._id as Types.ObjectId, targetId, session);
+  if (!sourceHasWiki) return;
+
+  // Wikis written before revisions were recorded only exist on the tag itself
+  if (moved === 0) {
+    await recordTagRevision(
+      {
+        tagId: targetId,
+        authorId: userId,
+        excerpt: source.excerpt ?? '',
+        wiki: source.wiki ?? '',
+        summary: `Wiki of ${source.name}, merged into this tag`,
+      },
+      session
+    );
+  }
+
+  if (!targetHasWiki) {
+    target.excerpt = source.excerpt;
+    target.wiki = source.wiki;
+    return;
+  }
+
+  await recordTagRevision(
+    {
+      tagId: targetId,
+      authorId: userId,
+      excerpt: target.excerpt ?? '',
+      wiki: target.wiki ?? '',
+      summary: `Kept the ${target.name} wiki when merging ${source.name}`,
+    },
+    session
+  );
+}
+
+/**
+ * Finds the tag a deleted tag was merged into, so its old URL can redirect
+ *
+ * Example:
+ * await getMergedTagTarget({ tagId: "jsTagId" });
+ * → { tagId: "javascriptTagId" }
+ */
+export async function getMergedTagTarget(params: GetTagParams): Promise<ActionResponse<{ tagId: string }>> {
+  const validationResult = await action({
+    params,
+    schema: GetTagSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId } = validationResult.params!;
+
+  try {
+    if (!mongoose.isValidObjectId(tagId)) throw new NotFoundError('Tag');
+
+    const synonym = await TagSynonym.findOne({ mergedTag: tagId }, { tag: 1 });
+    if (!synonym) throw new NotFoundError('Tag');
+
+    return { success: true, data: { tagId: synonym.tag.toString() } };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
@@ -0,0 +1,110 @@
+'use server';
+
+import mongoose from 'mongoose';
+import { revalidatePath } from 'next/cache';
+import { ZodSchema } from 'zod';
+
+import ROUTES from '@/constants/routes';
+import { Tag, TagRevision } from '@/database';
+
+import action from '../handlers/action';
+import handleError from '../handlers/error';
+import { NotFoundError } from '../http-errors';
+import { assertPrivilege } from '../privileges';
+import { recordTagRevision } from '../revisions';
+import { EditTagWikiSchema, GetTagSchema } from '../validations';
+
+/**
+ * Updates the excerpt and wiki of a tag
+ *
+ * Needs the editTagWikis privilege. Every edit that changes something is
+ * stored in the tag's revision history, in the same transaction.
+ *
+ * @param params - Object containing:
+ *   - tagId: ID of the tag to document
+ *   - excerpt: Short plain-text summary shown on tag cards
+ *   - wiki: Full markdown documentation shown on the tag page
+ *   - summary: Optional description of the edit, shown in the revision history
+ *
+ * Example:
+ * await editTagWiki({
+ *   tagId: "123",
+ *   excerpt: "React is a library for building user interfaces.",
+ *   wiki: "## Getting started\n...",
+ * });
+ */
+export async function editTagWiki(params: EditTagWikiParams): Promise<ActionResponse<Tag>> {
+  const validationResult = await action({
+    params,
+    schema: EditTagWikiSchema as ZodSchema,
+    authorize: true,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId, excerpt, wiki, summary } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    await assertPrivilege(validationResult.session, 'editTagWikis', session);
+
+    const tag = await Tag.findById(tagId).session(session);
+    if (!tag) throw new NotFoundError('Tag');
+
+    // Only edits that actually change something become a new revision
+    if (tag.excerpt !== excerpt.trim() || tag.wiki !== wiki.trim()) {
+      tag.excerpt = excerpt.trim();
+      tag.wiki = wiki.trim();
+      await tag.save({ session });
+
+      await recordTagRevision({ tagId, authorId: userId!, excerpt: tag.excerpt, wiki: tag.wiki, summary }, session);
+    }
+
+    await session.commitTransaction();
+
+    revalidatePath(ROUTES.TAGS);
+    revalidatePath(ROUTES.TAG(tagId));
+    revalidatePath(ROUTES.TAG_REVISIONS(tagId));
+
+    return { success: true, data: JSON.parse(JSON.stringify(tag)) };
+  } catch (error) {
+    await session.abortTransaction();
+    return handleError(error) as ErrorResponse;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Retrieves the wiki revision history of a tag, newest revision first
+ *
+ * Example:
+ * await getTagRevisions({ tagId: "123" });
+ * → [{ revision: 2, excerpt: "...", wiki: "...", summary: "Added examples", ... }, ...]
+ */
+export async function getTagRevisions(params: GetTagParams): Promise<ActionResponse<TagRevision[]>> {
+  const validationResult = await action({
+    params,
+    schema: GetTagSchema as ZodSchema,
+  });
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { tagId } = validationResult.params!;
+
+  try {
+    const revisions = await TagRevision.find({ tag: tagId })
+      .sort({ revision: -1 })
+      .populate('author', '_id name image')
+      .lean();
+
+    return { success: true, data: JSON.parse(JSON.stringify(revisions)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
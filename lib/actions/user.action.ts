@@ -1,18 +1,32 @@
 'use server';
 
-import { FilterQuery, SortOrder } from 'mongoose';
+import { SortOrder, Types } from 'mongoose';
+import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
 
-import { User } from '@/database';
+import ROUTES from '@/constants/routes';
+import { Answer, Question, User } from '@/database';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
-import { PaginatedSearchParamsSchema } from '../validations';
+import { NotFoundError, ValidationError } from '../http-errors';
+import { resolveTextSearch, SortCriteria, TextSearch, withRelevance } from '../search';
+import { escapeRegExp } from '../utils';
+import {
+  GetUserAnswersSchema,
+  GetUserQuestionsSchema,
+  GetUserSchema,
+  PaginatedSearchParamsSchema,
+  ProfileSchema,
+} from '../validations';
 
 // Types derived from Zod schema for type safety
 type FilterType = z.infer<typeof PaginatedSearchParamsSchema>['filter'];
 type PaginatedSearchParams = z.infer<typeof PaginatedSearchParamsSchema>;
 
+// Profile fields anyone may see. Email, role, AI limits and preferences stay private.
+const PUBLIC_PROFILE_FIELDS = '_id name username image bio location portfolio reputation createdAt';
+
 interface GetUsersResponse {
   users: User[];
   isNext: boolean;
@@ -20,29 +34,17 @@ interface GetUsersResponse {
 
 /**
  * Builds a MongoDB filter query for searching users
- * @param query - Search string to match against user name or email
- * @returns MongoDB filter query object
+ * @param query - Search string to match against user name or username
+ * @returns MongoDB filter query object and whether it can be sorted by relevance
  *
  * Example:
  * If query is "john", the filter will match:
- * - Users with "john" in their name (case-insensitive)
- * - Users with "john" in their email (case-insensitive)
+ * - Users with the word "john" in their name or username, through the text index
+ * - Otherwise, users with "john" anywhere in their name or username (case-insensitive)
  */
-function buildUserFilterQuery(query?: string): FilterQuery<typeof User> {
-  // Initialize empty filter query
-  const filterQuery: FilterQuery<typeof User> = {};
-
-  // If search query is provided, add name and email search conditions
-  if (query) {
-    filterQuery.$or = [
-      // Search in name field using case-insensitive regex
-      { name: { $regex: query, $options: 'i' } },
-      // Search in email field using case-insensitive regex
-      { email: { $regex: query, $options: 'i' } },
-    ];
-  }
-
-  return filterQuery;
+function buildUserFilterQuery(query?: string): Promise<TextSearch<typeof User>> {
+  // Emails are private, so they are not searchable
+  return resolveTextSearch(User, {}, query, ['name', 'username']);
 }
 
 /**
@@ -123,19 +125,22 @@ export async function getUsers(params: PaginatedSearchParams): Promise<ActionRes
   // Calculate pagination parameters
   const { skip, limit } = calculatePagination(page, pageSize);
 
-  // Build search filter
-  const filterQuery = buildUserFilterQuery(query);
+  try {
+    // Build search filter
+    const search = await buildUserFilterQuery(query);
+    const filterQuery = search.query;
 
-  // Get sort criteria
-  const sortCriteria = getSortCriteria(filter);
+    // Get sort criteria; without an explicit filter, the best matches come first
+    const sortCriteria: SortCriteria = filter
+      ? getSortCriteria(filter)
+      : withRelevance(search, getSortCriteria(filter));
 
-  try {
     // Execute parallel queries for better performance
     const [totalUsers, users] = await Promise.all([
       // Count total matching users
       User.countDocuments(filterQuery),
-      // Get paginated and sorted user list
-      User.find(filterQuery).sort(sortCriteria).skip(skip).limit(limit),
+      // Get paginated and sorted user list, with public profile fields only
+      User.find(filterQuery).select(PUBLIC_PROFILE_FIELDS).sort(sortCriteria).skip(skip).limit(limit),
     ]);
 
     // Check if there are more pages
@@ -154,3 +159,212 @@ export async function getUsers(params: PaginatedSearchParams): Promise<ActionRes
     return handleError(error) as ErrorResponse;
   }
 }
+
+/**
+ * Fetches a single user together with their profile stats
+ * Only the public profile fields are returned, since any client can call this for any user.
+ * @param params - Object containing the user ID
+ * @returns Promise containing the user and their stats
+ *
+ * Stats:
+ * - totalQuestions / totalAnswers: Number of posts written by the user
+ * - acceptedAnswers: Answers chosen as the solution of a question
+ * - totalVotes: Upvotes and downvotes received on all of the user's posts
+ */
+export async function getUser(params: GetUserParams): Promise<ActionResponse<{ user: User; stats: UserStats }>> {
+  const validationResult = await action({
+    params,
+    schema: GetUserSchema,
+  });
+
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { userId } = validationResult.params!;
+
+  try {
+    const user = await User.findById(userId).select(PUBLIC_PROFILE_FIELDS);
+    if (!user) throw new NotFoundError('User');
+
+    const stats = await getUserStats(user._id);
+
+    return {
+      success: true,
+      data: {
+        user: JSON.parse(JSON.stringify(user)),
+        stats,
+      },
+    };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Updates the profile of the signed-in user
+ * The user is taken from the session, so users can only ever edit their own record.
+ * @param params - New profile details
+ * @returns Promise containing the updated user
+ *
+ * Example:
+ * await updateUser({ name: "John Doe", username: "john_doe", bio: "Full-stack developer" });
+ * → ValidationError if "john_doe" already belongs to another user
+ */
+export async function updateUser(params: UpdateUserParams): Promise<ActionResponse<User>> {
+  const validationResult = await action({
+    params,
+    schema: ProfileSchema,
+    authorize: true,
+  });
+
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { name, username, bio, location, portfolio, image } = validationResult.params!;
+  const userId = validationResult.session?.user?.id;
+
+  try {
+    // Usernames are unique, regardless of letter case
+    const usernameTaken = await User.exists({
+      _id: { $ne: userId },
+      username: { $regex: `^${escapeRegExp(username)}$`, $options: 'i' },
+    });
+    if (usernameTaken) {
+      throw new ValidationError({ username: ['This username is already taken.'] });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { name, username, bio, location, portfolio, image },
+      { new: true, runValidators: true }
+    );
+    if (!user) throw new NotFoundError('User');
+
+    revalidatePath(ROUTES.PROFILE(user._id.toString()));
+
+    return { success: true, data: JSON.parse(JSON.stringify(user)) };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Computes the profile stats of a user
+ * @param userId - ID of the user
+ * @returns Post counts, accepted answers and received votes
+ */
+async function getUserStats(userId: Types.ObjectId): Promise<UserStats> {
+  // Sums the votes received on every post in a collection written by the user
+  const sumVotes = [
+    { $match: { author: userId } },
+    { $group: { _id: null, count: { $sum: 1 }, votes: { $sum: { $add: ['$upvotes', '$downvotes'] } } } },
+  ];
+
+  const [[questionTotals], [answerTotals], answerIds] = await Promise.all([
+    Question.aggregate(sumVotes),
+    Answer.aggregate(sumVotes),
+    Answer.distinct('_id', { author: userId }),
+  ]);
+
+  const acceptedAnswers = answerIds.length ? await Question.countDocuments({ acceptedAnswer: { $in: answerIds } }) : 0;
+
+  return {
+    totalQuestions: questionTotals?.count ?? 0,
+    totalAnswers: answerTotals?.count ?? 0,
+    acceptedAnswers,
+    totalVotes: (questionTotals?.votes ?? 0) + (answerTotals?.votes ?? 0),
+  };
+}
+
+/**
+ * Fetches a user's questions, best voted first
+ * @param params - Object containing the user ID and pagination parameters
+ * @returns Promise containing the questions and pagination info
+ */
+export async function getUserQuestions(
+  params: GetUserQuestionsParams
+): Promise<ActionResponse<{ questions: Question[]; isNext: boolean }>> {
+  const validationResult = await action({
+    params,
+    schema: GetUserQuestionsSchema,
+  });
+
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { userId, page, pageSize } = validationResult.params!;
+  const { skip, limit } = calculatePagination(page, pageSize);
+
+  try {
+    const [totalQuestions, questions] = await Promise.all([
+      Question.countDocuments({ author: userId }),
+      Question.find({ author: userId })
+        .populate('tags', 'name')
+        .populate('author', 'name image')
+        .sort({ upvotes: -1, views: -1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+    ]);
+
+    const isNext = totalQuestions > skip + questions.length;
+
+    return {
+      success: true,
+      data: {
+        questions: JSON.parse(JSON.stringify(questions)),
+        isNext,
+      },
+    };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
+
+/**
+ * Fetches a user's answers, best voted first
+ * Each answer includes the ID and title of the question it belongs to.
+ * @param params - Object containing the user ID and pagination parameters
+ * @returns Promise containing the answers and pagination info
+ */
+export async function getUserAnswers(
+  params: GetUserAnswersParams
+): Promise<ActionResponse<{ answers: Answer[]; isNext: boolean }>> {
+  const validationResult = await action({
+    params,
+    schema: GetUserAnswersSchema,
+  });
+
+  if (validationResult instanceof Error) {
+    return handleError(validationResult) as ErrorResponse;
+  }
+
+  const { userId, page, pageSize } = validationResult.params!;
+  const { skip, limit } = calculatePagination(page, pageSize);
+
+  try {
+    const [totalAnswers, answers] = await Promise.all([
+      Answer.countDocuments({ author: userId }),
+      Answer.find({ author: userId })
+        .populate('author', '_id name image')
+        .populate('question', '_id title')
+        .sort({ upvotes: -1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+    ]);
+
+    const isNext = totalAnswers > skip + answers.length;
+
+    return {
+      success: true,
+      data: {
+        answers: JSON.parse(JSON.stringify(answers)),
+        isNext,
+      },
+    };
+  } catch (error) {
+    return handleError(error) as ErrorResponse;
+  }
+}
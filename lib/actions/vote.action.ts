@@ -8,6 +8,10 @@ import { Answer, Question, Vote } from '@/database';
 
 import action from '../handlers/action';
 import handleError from '../handlers/error';
+import { NotFoundError, UnauthorizedError } from '../http-errors';
+import { recordInteraction } from '../interactions';
+import { assertPrivilege } from '../privileges';
+import { recordReputationEvents, reputationEvent } from '../reputation';
 import { CreateVoteSchema, HasVotedSchema, UpdateVoteCountSchema } from '../validations';
 
 // Types
@@ -27,6 +31,11 @@ interface UpdateVoteCountParams {
   change: number;
 }
 
+interface VoteReputationContext {
+  voterId: string;
+  targetAuthorId: string;
+}
+
 interface HasVotedParams {
   targetId: string;
   targetType: TargetType;
@@ -86,30 +95,65 @@ export async function updateVoteCount(params: UpdateVoteCountParams, session?: C
 }
 
 /**
- * Removes an existing vote and updates the vote count
+ * Builds the reputation event a vote gives to the author of the voted post
+ * @param targetType - Whether a question or an answer was voted on
+ * @param voteType - Type of the vote
+ * @param targetId - ID of the voted post
+ * @param context - Voter and author of the voted post
+ * @param direction - 1 when the vote is cast, -1 when it is taken back
+ */
+function voteReputationEvent(
+  targetType: TargetType,
+  voteType: VoteType,
+  targetId: string,
+  { voterId, targetAuthorId }: VoteReputationContext,
+  direction: 1 | -1
+) {
+  return reputationEvent(
+    `${targetType}_${voteType}d` as const,
+    { user: targetAuthorId, actor: voterId, targetId, targetType },
+    direction
+  );
+}
+
+/**
+ * Removes an existing vote, updates the vote count and takes back the reputation it gave
  * @param voteId - ID of the vote to remove
  * @param params - Parameters for updating vote count
+ * @param reputation - Voter and author of the voted post
  * @param session - MongoDB session for transaction support
  */
-async function removeVote(voteId: string, params: UpdateVoteCountParams, session: ClientSession): Promise<void> {
+async function removeVote(
+  voteId: string,
+  params: UpdateVoteCountParams,
+  reputation: VoteReputationContext,
+  session: ClientSession
+): Promise<void> {
+  const { targetId, targetType, voteType } = params;
+
   await Vote.deleteOne({ _id: voteId }).session(session);
   await updateVoteCount(params, session);
+
+  await recordReputationEvents([voteReputationEvent(targetType, voteType, targetId, reputation, -1)], session);
 }
 
 /**
- * Updates an existing vote to a new type and adjusts vote counts accordingly
+ * Updates an existing vote to a new type and adjusts vote counts and reputation accordingly
  * @param voteId - ID of the vote to update
  * @param newVoteType - New vote type to set
  * @param params - Parameters for the vote operation
+ * @param reputation - Voter and author of the voted post
  * @param session - MongoDB session for transaction support
  */
 async function switchVoteType(
   voteId: string,
   newVoteType: VoteType,
   params: CreateVoteParams,
+  reputation: VoteReputationContext,
   session: ClientSession
 ): Promise<void> {
   const { targetId, targetType } = params;
+  const previousVoteType: VoteType = newVoteType === 'upvote' ? 'downvote' : 'upvote';
 
   // Update the vote type
   await Vote.findByIdAndUpdate(voteId, { voteType: newVoteType }, { new: true, session });
@@ -119,7 +163,7 @@ async function switchVoteType(
     {
       targetId,
       targetType,
-      voteType: newVoteType === 'upvote' ? 'downvote' : 'upvote',
+      voteType: previousVoteType,
       change: -1,
     },
     session
@@ -135,16 +179,30 @@ async function switchVoteType(
     },
     session
   );
+
+  // Take back the reputation of the previous vote and apply the new one
+  await recordReputationEvents(
+    [
+      voteReputationEvent(targetType, previousVoteType, targetId, reputation, -1),
+      voteReputationEvent(targetType, newVoteType, targetId, reputation, 1),
+    ],
+    session
+  );
 }
 
 /**
- * Creates a new vote and updates the vote count
+ * Creates a new vote, updates the vote count and awards reputation to the post author
  * @param params - Parameters for creating a vote
- * @param userId - ID of the user creating the vote
+ * @param reputation - Voter and author of the voted post
  * @param session - MongoDB session for transaction support
  */
-async function createNewVote(params: CreateVoteParams, userId: string, session: ClientSession): Promise<void> {
+async function createNewVote(
+  params: CreateVoteParams,
+  reputation: VoteReputationContext,
+  session: ClientSession
+): Promise<void> {
   const { targetId, targetType, voteType } = params;
+  const userId = reputation.voterId;
 
   await Vote.create(
     [
@@ -167,10 +225,13 @@ async function createNewVote(params: CreateVoteParams, userId: string, session:
     },
     session
   );
+
+  await recordReputationEvents([voteReputationEvent(targetType, voteType, targetId, reputation, 1)], session);
 }
 
 /**
  * Handles the creation, updating, or removal of a vote
+ * Casting a downvote requires the downvote privilege.
  * @param params - Parameters for the vote operation
  * @returns ActionResponse indicating success or failure
  */
@@ -188,35 +249,52 @@ export async function createVote(params: CreateVoteParams): Promise<ActionRespon
   const { targetId, targetType, voteType } = validationResult.params!;
   const userId = validationResult.session?.user?.id;
 
-  if (!userId) return handleError(new Error('Unauthorized')) as ErrorResponse;
+  if (!userId) return handleError(new UnauthorizedError()) as ErrorResponse;
 
   const session = await mongoose.startSession();
   session.startTransaction();
 
   try {
+    // Find the author of the voted post, who gains or loses reputation
+    const Model = targetType === 'question' ? Question : Answer;
+    const target = await Model.findById(targetId).select('author question').session(session);
+    if (!target) throw new NotFoundError(targetType === 'question' ? 'Question' : 'Answer');
+    const questionId = targetType === 'question' ? targetId : target.question.toString();
+
+    const reputation: VoteReputationContext = { voterId: userId, targetAuthorId: target.author.toString() };
+
     const existingVote = await Vote.findOne({
       author: userId,
       actionId: targetId,
       actionType: targetType,
     }).session(session);
 
+    const isCastingVote = existingVote?.voteType !== voteType;
+
+    // Taking a downvote back is always allowed, casting one needs the privilege
+    if (isCastingVote && voteType === 'downvote') {
+      await assertPrivilege(validationResult.session, 'downvote', session);
+    }
+
     if (existingVote) {
       if (existingVote.voteType === voteType) {
         // Remove vote if clicking the same type again
-        await removeVote(existingVote._id, { targetId, targetType, voteType, change: -1 }, session);
+        await removeVote(existingVote._id, { targetId, targetType, voteType, change: -1 }, reputation, session);
       } else {
         // Switch vote type (e.g., from upvote to downvote)
-        await switchVoteType(existingVote._id, voteType, params, session);
+        await switchVoteType(existingVote._id, voteType, params, reputation, session);
       }
     } else {
       // Create new vote
-      await createNewVote(params, userId, session);
+      await createNewVote(params, reputation, session);
     }
 
     await session.commitTransaction();
     session.endSession();
 
-    revalidatePath(ROUTES.QUESTION(targetId));
+    if (isCastingVote) await recordInteraction(userId, voteType, questionId);
+
+    revalidatePath(ROUTES.QUESTION(questionId));
 
     return { success: true };
   } catch (error) {
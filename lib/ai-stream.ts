@@ -0,0 +1,82 @@
+import { RequestError } from './http-errors';
+
+/**
+ * Browser side of AI answer streaming
+ *
+ * Reads the plain text stream of POST /api/ai/answers/stream chunk by chunk.
+ * Streaming is unavailable when the configured provider cannot stream, when the
+ * route does not exist, or when the browser cannot read response bodies as
+ * streams; callers then fall back to the `generateAIAnswer` action.
+ *
+ * Runs in the browser, which is why this is not a 'use server' module.
+ */
+
+const STREAM_ENDPOINT = '/api/ai/answers/stream';
+
+// Statuses that mean "no streaming here" rather than "the request failed"
+const STREAMING_UNAVAILABLE_STATUSES = [404, 405, 501];
+
+interface StreamAIAnswerOptions {
+  signal?: AbortSignal;
+  // Called with every chunk and the text received so far
+  onChunk: (chunk: string, text: string) => void;
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body?.error?.message || `HTTP error: ${response.status}`;
+  } catch {
+    return `HTTP error: ${response.status}`;
+  }
+}
+
+/**
+ * Streams an AI answer from the API
+ * Aborting the signal cancels the request, and the promise rejects with an AbortError.
+ * @returns The full answer, or null when streaming is unavailable
+ *
+ * Example:
+ * await streamAIAnswer({ questionId: "1", question: "How do I debounce in React?", content: "..." }, { onChunk: (_, text) => render(text) });
+ * → "## Debouncing in React\n..."
+ */
+export async function streamAIAnswer(
+  input: { questionId: string; question: string; content: string; userAnswer?: string },
+  { signal, onChunk }: StreamAIAnswerOptions
+): Promise<string | null> {
+  if (typeof ReadableStream === 'undefined' || typeof TextDecoder === 'undefined') return null;
+
+  const response = await fetch(STREAM_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/plain' },
+    body: JSON.stringify(input),
+    signal,
+  });
+
+  if (STREAMING_UNAVAILABLE_STATUSES.includes(response.status)) return null;
+  if (!response.ok) throw new RequestError(response.status, await readErrorMessage(response));
+  if (!response.body) return null;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const chunk = decoder.decode(value, { stream: true });
+    if (!chunk) continue;
+
+    text += chunk;
+    onChunk(chunk, text);
+  }
+
+  const rest = decoder.decode();
+  if (rest) {
+    text += rest;
+    onChunk(rest, text);
+  }
+
+  return text;
+}
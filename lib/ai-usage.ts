@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+
+import { Types } from 'mongoose';
+
+import { AI_ANSWER_CACHE_TTL_DAYS, DEFAULT_AI_DAILY_LIMIT } from '@/constants/ai';
+import { AIAnswerCache, AIUsage, User } from '@/database';
+
+import { AIAnswerInput, getAIProvider } from './ai';
+import { TooManyRequestsError } from './http-errors';
+
+/**
+ * AI usage quotas and answer caching
+ *
+ * Every user may generate a limited number of AI answers per UTC day. Usage is
+ * counted per user and day in AIUsage, and admins can give a user a different
+ * limit through `User.aiDailyLimit`.
+ *
+ * Generated answers are cached for a question, its content, the user's draft
+ * and the model that wrote them. Asking again with the same draft is served
+ * from the cache and does not count towards the quota.
+ *
+ * These helpers are shared by the generateAIAnswer action and the AI streaming
+ * route, which is why this is not a 'use server' module.
+ */
+
+export interface AIAnswerRequest extends AIAnswerInput {
+  questionId: string;
+}
+
+export interface AIGenerationReservation {
+  quota: AIQuota;
+  // Gives the generation back, for requests that failed before producing an answer
+  release: () => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// UTC day as YYYY-MM-DD
+const usageDay = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+
+const nextResetAt = (date: Date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+
+function defaultDailyLimit(): number {
+  const configured = Number(process.env.AI_DAILY_LIMIT);
+
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_AI_DAILY_LIMIT;
+}
+
+async function getDailyLimit(userId: string): Promise<{ limit: number; isCustomLimit: boolean }> {
+  const user = await User.findById(userId, { aiDailyLimit: 1 }).lean<{ aiDailyLimit?: number | null }>();
+  const custom = user?.aiDailyLimit;
+
+  return typeof custom === 'number'
+    ? { limit: custom, isCustomLimit: true }
+    : { limit: defaultDailyLimit(), isCustomLimit: false };
+}
+
+function toQuota(used: number, { limit, isCustomLimit }: { limit: number; isCustomLimit: boolean }): AIQuota {
+  return { used, limit, remaining: Math.max(limit - used, 0), isCustomLimit, resetsAt: nextResetAt() };
+}
+
+/**
+ * Reads a user's AI usage for today
+ *
+ * Example:
+ * await loadAIQuota("123");
+ * → { used: 3, limit: 20, remaining: 17, isCustomLimit: false, resetsAt: 2025-01-02T00:00:00.000Z }
+ */
+export async function loadAIQuota(userId: string): Promise<AIQuota> {
+  const [usage, dailyLimit] = await Promise.all([
+    AIUsage.findOne({ user: userId, day: usageDay() }, { count: 1 }).lean<{ count: number }>(),
+    getDailyLimit(userId),
+  ]);
+
+  return toQuota(usage?.count ?? 0, dailyLimit);
+}
+
+/**
+ * Counts a generation against the user's quota before it starts
+ * The count only goes up while it is below the limit, so concurrent requests
+ * cannot overrun the quota.
+ * @throws TooManyRequestsError when the user has no generations left today
+ *
+ * Example:
+ * const { quota, release } = await reserveAIGeneration("123");
+ * → quota: { used: 4, limit: 20, remaining: 16, ... }
+ */
+export async function reserveAIGeneration(userId: string): Promise<AIGenerationReservation> {
+  const day = usageDay();
+  const user = new Types.ObjectId(userId);
+  const dailyLimit = await getDailyLimit(userId);
+
+  await AIUsage.updateOne({ user, day }, { $setOnInsert: { count: 0 } }, { upsert: true });
+  const usage = await AIUsage.findOneAndUpdate(
+    { user, day, count: { $lt: dailyLimit.limit } },
+    { $inc: { count: 1 } },
+    { new: true }
+  ).lean<{ count: number }>();
+
+  if (!usage) {
+    throw new TooManyRequestsError(
+      `You have used all ${dailyLimit.limit} AI answers for today. The limit resets at midnight UTC.`
+    );
+  }
+
+  return {
+    quota: toQuota(usage.count, dailyLimit),
+    release: async () => {
+      await AIUsage.updateOne({ user, day, count: { $gt: 0 } }, { $inc: { count: -1 } });
+    },
+  };
+}
+
+/**
+ * Builds the cache key of an answer request
+ * The draft is compared without surrounding whitespace, and answers from
+ * another provider or model are never reused.
+ *
+ * Example:
+ * getAIAnswerCacheKey({ questionId: "1", question: "How...", content: "...", userAnswer: "" })
+ * → "9f86d081884c7d65..."
+ */
+export function getAIAnswerCacheKey({ questionId, question, content, userAnswer }: AIAnswerRequest): string {
+  const { name, model } = getAIProvider();
+  const contentHash = sha256(JSON.stringify([question, content]));
+
+  return sha256(JSON.stringify([questionId, contentHash, userAnswer?.trim() ?? '', name, model]));
+}
+
+/**
+ * Looks up a cached answer
+ * @returns null when nothing is cached for the key, or the entry expired
+ */
+export async function getCachedAIAnswer(key: string): Promise<string | null> {
+  const entry = await AIAnswerCache.findOne({ key, expiresAt: { $gt: new Date() } }, { answer: 1 }).lean<{
+    answer: string;
+  }>();
+
+  return entry?.answer ?? null;
+}
+
+/**
+ * Caches a generated answer, replacing any previous answer for the key
+ */
+export async function cacheAIAnswer(key: string, questionId: string, answer: string): Promise<void> {
+  const { name, model } = getAIProvider();
+
+  await AIAnswerCache.updateOne(
+    { key },
+    {
+      question: questionId,
+      answer,
+      provider: name,
+      modelName: model,
+      expiresAt: new Date(Date.now() + AI_ANSWER_CACHE_TTL_DAYS * DAY_MS),
+    },
+    { upsert: true }
+  );
+}
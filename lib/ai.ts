@@ -0,0 +1,221 @@
+import OpenAI from 'openai';
+
+import logger from './logger';
+
+/**
+ * AI answer generation
+ *
+ * Answers are generated by a provider selected through environment variables:
+ *
+ * - `openai`: the OpenAI API, authenticated with OPENAI_API_KEY
+ * - `local`: any OpenAI-compatible server, e.g. Ollama or LM Studio, at AI_BASE_URL
+ * - `stub`: a deterministic offline stand-in that needs no network or key
+ *
+ * AI_PROVIDER picks one explicitly. Without it, OpenAI is used when
+ * OPENAI_API_KEY is set and the stub otherwise, so development and test
+ * environments work without any configuration. AI_MODEL overrides the model.
+ *
+ * Providers may also stream an answer as it is generated. Callers check
+ * `streamAnswer` for null and fall back to `generateAnswer` when a provider
+ * cannot stream.
+ *
+ * Not a 'use server' module: providers are only used by the AI API route.
+ */
+
+export const AI_PROVIDER_NAMES = ['openai', 'local', 'stub'] as const;
+
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+export interface AIAnswerInput {
+  question: string;
+  content: string;
+  userAnswer?: string;
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  model: string;
+  generateAnswer(input: AIAnswerInput): Promise<string>;
+  // Yields the answer in chunks as they are generated, left out by providers that cannot stream
+  streamAnswer?(input: AIAnswerInput, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  local: 'llama3.2',
+  stub: 'stub',
+};
+
+// Ollama's OpenAI-compatible endpoint
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+// Pause between the words the stub streams, so progressive rendering can be seen without a real model
+const STUB_STREAM_DELAY_MS = 15;
+
+const SYSTEM_PROMPT = `You are a helpful assistant that provides informative responses in markdown format. Use appropriate markdown syntax for headings, lists, code blocks, and emphasis where necessary.
+            For code blocks, use short-form smaller case language identifiers (e.g., 'js' for JavaScript, 'py' for Python, 'ts' for TypeScript, 'html' for HTML, 'css' for CSS, etc.).`;
+
+function buildMessages({ question, content, userAnswer }: AIAnswerInput): OpenAI.ChatCompletionMessageParam[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `Generate a markdown-formatted response to the following question: "${question}".Consider the provided context: **Context:** ${content} Also,
+            prioritize and incorporate the user's answer when formulating your response: **User's Answer:** ${userAnswer} Prioritize the user's answer only if it's correct.
+            If it's incomplete or incorrect, improve or correct it while keeping the response concise and to the point. Provide the final answer in markdown format.`,
+    },
+  ];
+}
+
+/**
+ * Provider for the OpenAI API and any server implementing its chat completions endpoint
+ */
+function createOpenAICompatibleProvider(name: 'openai' | 'local', client: OpenAI, model: string): AIProvider {
+  return {
+    name,
+    model,
+    async generateAnswer(input) {
+      const completion = await client.chat.completions.create({ model, messages: buildMessages(input) });
+
+      return completion.choices[0]?.message?.content || 'No response generated';
+    },
+    async *streamAnswer(input, signal) {
+      const stream = await client.chat.completions.create(
+        { model, messages: buildMessages(input), stream: true },
+        { signal }
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+/**
+ * Offline provider that answers with a fixed template
+ * The same input always produces the same answer, which keeps tests and
+ * screenshots stable.
+ */
+function createStubProvider(): AIProvider {
+  const buildAnswer = ({ question, userAnswer }: AIAnswerInput) => {
+    const draft = userAnswer?.trim();
+
+    return [
+      `## ${question.trim()}`,
+      draft
+        ? `Your draft answer, kept as it is:\n\n${draft}`
+        : 'Start by describing what you expected to happen and what happened instead.',
+      '- Reduce the problem to the smallest example that still fails',
+      '- Check the documentation of the APIs involved for the version you use',
+      '- Share the exact error message and the steps to reproduce it',
+      '> This answer was generated offline by the stub AI provider. Configure `AI_PROVIDER` to get real answers.',
+    ].join('\n\n');
+  };
+
+  return {
+    name: 'stub',
+    model: DEFAULT_MODELS.stub,
+    async generateAnswer(input) {
+      return buildAnswer(input);
+    },
+    async *streamAnswer(input, signal) {
+      // Words keep their trailing whitespace, so the chunks join back into the exact answer
+      for (const word of buildAnswer(input).match(/\s*\S+\s*/g) ?? []) {
+        if (signal?.aborted) return;
+
+        await new Promise(resolve => setTimeout(resolve, STUB_STREAM_DELAY_MS));
+        yield word;
+      }
+    },
+  };
+}
+
+function resolveProviderName(): AIProviderName {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  if (!configured) return process.env.OPENAI_API_KEY ? 'openai' : 'stub';
+
+  if (!AI_PROVIDER_NAMES.includes(configured as AIProviderName)) {
+    throw new Error(`Unknown AI provider "${configured}". Use one of: ${AI_PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return configured as AIProviderName;
+}
+
+/**
+ * Creates the configured AI provider
+ * Configuration problems are reported when an answer is requested, not when
+ * the app starts, so the rest of the app keeps working without AI settings.
+ *
+ * Example:
+ * AI_PROVIDER=local AI_BASE_URL=http://localhost:11434/v1 AI_MODEL=qwen2.5-coder
+ * → { name: "local", model: "qwen2.5-coder", ... }
+ */
+export function getAIProvider(): AIProvider {
+  const name = resolveProviderName();
+  const model = process.env.AI_MODEL?.trim() || DEFAULT_MODELS[name];
+
+  if (name === 'openai') {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('AI_PROVIDER is "openai" but OPENAI_API_KEY is not set');
+    }
+
+    return createOpenAICompatibleProvider(name, new OpenAI({ apiKey: process.env.OPENAI_API_KEY }), model);
+  }
+
+  if (name === 'local') {
+    const baseURL = process.env.AI_BASE_URL?.trim() || DEFAULT_LOCAL_BASE_URL;
+    // Local servers usually ignore the key, but the client requires one
+    const client = new OpenAI({ baseURL, apiKey: process.env.AI_API_KEY || 'local' });
+
+    return createOpenAICompatibleProvider(name, client, model);
+  }
+
+  return createStubProvider();
+}
+
+/**
+ * Generates an answer with the configured provider
+ *
+ * Example:
+ * await generateAnswer({ question: "How do I debounce in React?", content: "...", userAnswer: "Use setTimeout" });
+ * → "## Debouncing in React\n..."
+ */
+export async function generateAnswer(input: AIAnswerInput): Promise<string> {
+  const provider = getAIProvider();
+
+  try {
+    return await provider.generateAnswer(input);
+  } catch (error) {
+    logger.error({ err: error, provider: provider.name, model: provider.model }, 'AI provider error');
+    throw error;
+  }
+}
+
+/**
+ * Streams an answer with the configured provider
+ * @param signal - Stops generating when aborted, e.g. when the client disconnects
+ * @returns null when the provider cannot stream
+ *
+ * Example:
+ * for await (const chunk of streamAnswer({ question: "How do I debounce in React?", content: "..." })!) { ... }
+ * → "## Debouncing", " in React", "\n..."
+ */
+export function streamAnswer(input: AIAnswerInput, signal?: AbortSignal): AsyncIterable<string> | null {
+  const provider = getAIProvider();
+  if (!provider.streamAnswer) return null;
+
+  const chunks = provider.streamAnswer(input, signal);
+
+  return (async function* () {
+    try {
+      yield* chunks;
+    } catch (error) {
+      if (!signal?.aborted) {
+        logger.error({ err: error, provider: provider.name, model: provider.model }, 'AI provider error');
+      }
+      throw error;
+    }
+  })();
+}
@@ -6,6 +6,25 @@ import { fetchHandler } from './handlers/fetch';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api';
 
+// Header carrying INTERNAL_API_TOKEN, which identifies server-side calls to the API routes
+export const SERVICE_TOKEN_HEADER = 'x-service-token';
+
+/**
+ * Reads the shared secret of the internal API routes
+ * Sign-in looks users and accounts up through service-only routes, so without
+ * it nobody can sign in. Failing here names the missing setting instead of
+ * leaving every internal call with an unexplained 403.
+ * @throws When INTERNAL_API_TOKEN is not set
+ */
+export function getServiceToken(): string {
+  const token = process.env.INTERNAL_API_TOKEN?.trim();
+  if (!token) {
+    throw new Error('INTERNAL_API_TOKEN is not set. Set it to a long random string, e.g. `openssl rand -hex 32`');
+  }
+
+  return token;
+}
+
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
 
 interface RequestOptions {
@@ -22,7 +41,7 @@ const makeApiRequest = async <T>(endpoint: string, options: RequestOptions = {})
 
   const requestOptions: RequestInit = {
     method,
-    headers: { ...headers },
+    headers: { [SERVICE_TOKEN_HEADER]: getServiceToken(), ...headers },
   };
 
   if (body && method !== 'GET') {
@@ -68,9 +87,15 @@ export const api = {
     ...createApiMethods<IAccount>('/accounts'),
     getByProvider: (providerAccountId: string) =>
       makeApiRequest<IAccount>('/accounts/provider', { method: 'POST', body: { providerAccountId } }),
+    verifyCredentials: (email: string, password: string) =>
+      makeApiRequest<IAccount>('/accounts/verify', { method: 'POST', body: { email, password }, maxRetries: 1 }),
   },
   ai: {
-    getAnswer: (question: string, content: string, userAnswer?: string): APIResponse<string> =>
-      makeApiRequest('/ai/answers', { method: 'POST', body: { question, content, userAnswer }, timeout: 100000 }),
+    getAnswer: (questionId: string, question: string, content: string, userAnswer?: string): APIResponse<string> =>
+      makeApiRequest('/ai/answers', {
+        method: 'POST',
+        body: { questionId, question, content, userAnswer },
+        timeout: 100000,
+      }),
   },
 };
@@ -0,0 +1,60 @@
+export interface DiffPart {
+  type: 'added' | 'removed' | 'unchanged';
+  value: string;
+}
+
+/**
+ * Line-based diff between two texts
+ * Uses the longest common subsequence of lines, so unchanged lines are kept
+ * in place and everything else is reported as removed or added.
+ *
+ * Example:
+ * diffLines("a\nb\nc", "a\nc\nd")
+ * → [unchanged "a", removed "b", unchanged "c", added "d"]
+ */
+export function diffLines(oldText: string, newText: string): DiffPart[] {
+  return diffSequences(oldText.split('\n'), newText.split('\n'));
+}
+
+/**
+ * Word-based diff between two short texts such as titles
+ * Whitespace is kept as separate parts so the result can be joined back together.
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  return diffSequences(oldText.split(/(\s+)/), newText.split(/(\s+)/));
+}
+
+function diffSequences(oldItems: string[], newItems: string[]): DiffPart[] {
+  const rows = oldItems.length;
+  const cols = newItems.length;
+
+  // lengths[i][j] = length of the LCS of oldItems[i..] and newItems[j..]
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldItems[i] === newItems[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows && j < cols) {
+    if (oldItems[i] === newItems[j]) {
+      parts.push({ type: 'unchanged', value: oldItems[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ type: 'removed', value: oldItems[i++] });
+    } else {
+      parts.push({ type: 'added', value: newItems[j++] });
+    }
+  }
+
+  while (i < rows) parts.push({ type: 'removed', value: oldItems[i++] });
+  while (j < cols) parts.push({ type: 'added', value: newItems[j++] });
+
+  return parts;
+}
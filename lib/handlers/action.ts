@@ -4,9 +4,12 @@ import { Session } from 'next-auth';
 import { ZodError, ZodSchema } from 'zod';
 
 import { auth } from '@/auth';
+import { Permission, PERMISSIONS, Role, ROLES } from '@/constants/permissions';
+import User from '@/database/user.model';
 
-import { UnauthorizedError, ValidationError } from '../http-errors';
+import { ForbiddenError, UnauthorizedError, ValidationError } from '../http-errors';
 import dbConnect from '../mongoose';
+import { getSessionRole, hasRole } from '../permissions';
 
 type ActionResult<T> = {
   params: T;
@@ -17,12 +20,15 @@ type ActionOptions<T> = {
   params?: T;
   schema?: ZodSchema<T>;
   authorize?: boolean;
+  role?: Role;
+  permission?: Permission;
 };
 
 // 1. Checking whether the schema and params are provided and validated.
 // 2. Checking whether the user is authorized.
 // 3. Connecting to the database.
-// 4. Returning the params and session.
+// 4. Refreshing the session's role and checking the required role or permission.
+// 5. Returning the params and session.
 
 async function validateSchema<T>(params: T, schema: ZodSchema<T>) {
   try {
@@ -35,19 +41,47 @@ async function validateSchema<T>(params: T, schema: ZodSchema<T>) {
   }
 }
 
-async function action<T>({ params, schema, authorize = false }: ActionOptions<T>): Promise<ActionResult<T>> {
+/**
+ * Replaces the role stored in the session with the user's current role
+ * Sessions keep the role the user had at sign-in, so a demoted moderator
+ * would otherwise keep their permissions until the session expires.
+ */
+async function withCurrentRole(session: Session): Promise<Session> {
+  const user = await User.findById(session.user?.id, { role: 1 }).lean<{ role?: Role }>();
+  const role = user?.role && ROLES.includes(user.role) ? user.role : 'user';
+
+  return { ...session, user: { ...session.user, role } as Session['user'] };
+}
+
+async function action<T>({
+  params,
+  schema,
+  authorize = false,
+  role,
+  permission,
+}: ActionOptions<T>): Promise<ActionResult<T>> {
   try {
     if (schema && params) {
       await validateSchema(params, schema);
     }
 
-    const session = authorize ? await auth() : null;
-    if (authorize && !session) {
+    // Requiring a role or permission implies requiring a signed-in user
+    const requiredRole = permission ? PERMISSIONS[permission] : role;
+    const mustAuthorize = authorize || !!requiredRole;
+
+    const sessionAtSignIn = mustAuthorize ? await auth() : null;
+    if (mustAuthorize && !sessionAtSignIn) {
       throw new UnauthorizedError();
     }
 
     await dbConnect();
 
+    const session = sessionAtSignIn && (await withCurrentRole(sessionAtSignIn));
+
+    if (requiredRole && !hasRole(getSessionRole(session), requiredRole)) {
+      throw new ForbiddenError('You do not have permission to perform this action');
+    }
+
     return { params: params as T, session };
   } catch (error) {
     if (error instanceof Error) {
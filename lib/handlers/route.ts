@@ -0,0 +1,66 @@
+import { timingSafeEqual } from 'crypto';
+
+import { Types } from 'mongoose';
+
+import { auth } from '@/auth';
+
+import { getServiceToken, SERVICE_TOKEN_HEADER } from '../api';
+import { ForbiddenError, UnauthorizedError } from '../http-errors';
+
+export type RouteCaller = { type: 'service' } | { type: 'user'; userId: string };
+
+type RouteAuthOptions = {
+  serviceOnly?: boolean;
+};
+
+// 1. Accepting internal calls that carry the service token (see lib/api.ts).
+// 2. Rejecting everyone else on service-only routes.
+// 3. Falling back to the signed-in user's session.
+
+/**
+ * Checks whether the request carries the internal service token
+ * @throws When INTERNAL_API_TOKEN is not set, see `getServiceToken`
+ */
+function isServiceRequest(request: Request): boolean {
+  const expected = getServiceToken();
+  const received = request.headers.get(SERVICE_TOKEN_HEADER);
+  if (!received) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+
+  return expectedBuffer.length === receivedBuffer.length && timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+/**
+ * Authorizes a call to an API route handler
+ * @param request - Incoming request
+ * @param options.serviceOnly - Only allow internal calls made with the service token
+ * @returns Who is making the call
+ *
+ * Example:
+ * const caller = await authorizeRoute(request);
+ * → { type: 'user', userId: '123' }
+ */
+export async function authorizeRoute(request: Request, { serviceOnly = false }: RouteAuthOptions = {}) {
+  if (isServiceRequest(request)) return { type: 'service' } as RouteCaller;
+
+  if (serviceOnly) throw new ForbiddenError('This endpoint is only available to internal services');
+
+  const session = await auth();
+  if (!session?.user?.id) throw new UnauthorizedError();
+
+  return { type: 'user', userId: session.user.id } as RouteCaller;
+}
+
+/**
+ * Makes sure the caller may access a record owned by the given user
+ * Internal services may access every record, users only their own.
+ */
+export function assertOwnership(caller: RouteCaller, ownerId: string | Types.ObjectId, resource: string): void {
+  if (caller.type === 'service') return;
+
+  if (caller.userId !== ownerId.toString()) {
+    throw new ForbiddenError(`You are not allowed to access this ${resource.toLowerCase()}`);
+  }
+}
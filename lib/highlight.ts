@@ -0,0 +1,101 @@
+import { escapeRegExp, stripMarkdown } from './utils';
+
+/**
+ * Highlighting for search results
+ *
+ * Shows why a question matched a search: matched terms are marked in its title,
+ * and a short plain-text excerpt is cut around the first match in its body.
+ * Highlights are plain text segments rather than HTML, so the cards render the
+ * marks as React elements and user content is never injected as markup.
+ *
+ * Not a 'use server' module, so the helpers are not exposed as server actions.
+ */
+
+// Length of the excerpt cut from the question body
+const EXCERPT_LENGTH = 180;
+// Characters of context kept before the first match
+const EXCERPT_LEAD = 60;
+// Shorter words would mark most of the text
+const MIN_TERM_LENGTH = 2;
+
+/**
+ * Collects the terms to highlight from a search
+ * @param text - Free words of the search
+ * @param phrases - Exact phrases of the search
+ * @returns Unique terms, longest first so phrases win over the words they contain
+ *
+ * Example:
+ * getHighlightTerms("react hooks", ["use effect"]) → ["use effect", "react", "hooks"]
+ */
+export function getHighlightTerms(text: string, phrases: string[] = []): string[] {
+  const words = text.split(/\s+/).filter(word => word.length >= MIN_TERM_LENGTH);
+  const terms = new Map([...phrases, ...words].map(term => [term.toLowerCase(), term]));
+
+  return [...terms.values()].sort((a, b) => b.length - a.length);
+}
+
+function termsPattern(terms: string[]) {
+  return new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+}
+
+/**
+ * Splits text into segments, marking the ones that match a term (case-insensitive)
+ *
+ * Example:
+ * highlightText("React hooks guide", ["hooks"])
+ * → [{ text: "React ", match: false }, { text: "hooks", match: true }, { text: " guide", match: false }]
+ */
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // Splitting on a capturing pattern puts the matches at the odd indexes
+  return text
+    .split(termsPattern(terms))
+    .map((segment, index) => ({ text: segment, match: index % 2 === 1 }))
+    .filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Cuts a plain-text excerpt of a markdown body around the first matching term
+ * Falls back to the start of the body when no term appears in it.
+ */
+export function buildExcerpt(markdown: string, terms: string[]): HighlightSegment[] {
+  const text = stripMarkdown(markdown);
+  const firstMatch = terms.length > 0 ? text.search(termsPattern(terms)) : -1;
+
+  let start = Math.max(0, firstMatch - EXCERPT_LEAD);
+  let end = Math.min(text.length, start + EXCERPT_LENGTH);
+
+  // Avoid cutting words in half
+  if (start > 0) {
+    const nextSpace = text.indexOf(' ', start);
+    if (nextSpace !== -1 && nextSpace < firstMatch) start = nextSpace + 1;
+  }
+  if (end < text.length) {
+    const lastSpace = text.lastIndexOf(' ', end);
+    if (lastSpace > Math.max(start, firstMatch)) end = lastSpace;
+  }
+
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+
+  return highlightText(excerpt, terms);
+}
+
+/**
+ * Attaches search highlights to questions
+ * Questions are returned as they are when there is nothing to highlight.
+ */
+export function withHighlights<T extends { title: string; content?: string }>(
+  questions: T[],
+  terms: string[]
+): Array<T & { highlight?: SearchHighlight }> {
+  if (terms.length === 0) return questions;
+
+  return questions.map(question => ({
+    ...question,
+    highlight: {
+      title: highlightText(question.title, terms),
+      excerpt: buildExcerpt(question.content ?? '', terms),
+    },
+  }));
+}
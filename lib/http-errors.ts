@@ -53,3 +53,9 @@ export class UnauthorizedError extends RequestError {
     super(401, message);
   }
 }
+
+export class TooManyRequestsError extends RequestError {
+  constructor(message: string = 'Too many requests') {
+    super(429, message);
+  }
+}
@@ -0,0 +1,54 @@
+import { Types } from 'mongoose';
+
+import { Interaction } from '@/database';
+import { InteractionAction } from '@/database/interaction.model';
+
+import logger from './logger';
+
+/**
+ * User interactions with questions
+ *
+ * Views, asks, answers, votes and saves are recorded against the question
+ * they happened on, and feed the recommended home feed. Each user keeps one
+ * interaction per action and question; repeating the action only refreshes
+ * its `updatedAt`.
+ *
+ * These helpers are only meant to be called from server actions, which is
+ * why this is not a 'use server' module.
+ */
+
+// How strongly each kind of interaction signals interest in a question's tags
+export const INTERACTION_WEIGHTS: Record<InteractionAction, number> = {
+  view: 1,
+  ask: 3,
+  answer: 3,
+  upvote: 2,
+  downvote: 0,
+  save: 3,
+};
+
+/**
+ * Records that a user interacted with a question
+ * Called after the triggering action succeeded. Repeated actions update the
+ * existing interaction instead of adding another one. Failures are logged
+ * instead of thrown, so a missed interaction never breaks that action.
+ *
+ * @param userId - ID of the user
+ * @param action - What the user did
+ * @param questionId - ID of the question the interaction happened on
+ */
+export async function recordInteraction(
+  userId: string | Types.ObjectId,
+  action: InteractionAction,
+  questionId: string | Types.ObjectId
+): Promise<void> {
+  try {
+    await Interaction.updateOne(
+      { user: userId, action, actionId: questionId, actionType: 'question' },
+      { $set: { updatedAt: new Date() } },
+      { upsert: true }
+    );
+  } catch (error) {
+    logger.error({ err: error, action, questionId: questionId.toString() }, 'Failed to record interaction');
+  }
+}
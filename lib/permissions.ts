@@ -0,0 +1,67 @@
+import type { Session } from 'next-auth';
+
+import { Permission, PERMISSIONS, Role, ROLES } from '@/constants/permissions';
+import { Privilege, PRIVILEGES } from '@/constants/privileges';
+
+/**
+ * Role and privilege checks shared by server actions and client components
+ *
+ * The user's role is stored on the session when they sign in, and reputation
+ * is passed in by the caller, so these helpers never touch the database and
+ * are safe to import on the client.
+ */
+
+/**
+ * Reads the role of the signed-in user
+ * Sessions without a role, and signed-out visitors, count as regular users.
+ */
+export function getSessionRole(session: Session | null | undefined): Role {
+  const role = (session?.user as { role?: Role } | undefined)?.role;
+
+  return role && ROLES.includes(role) ? role : 'user';
+}
+
+/**
+ * Checks whether a role is at least the required role
+ *
+ * Example:
+ * hasRole('admin', 'moderator') → true
+ * hasRole('user', 'moderator') → false
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Checks whether a role is allowed to perform a privileged operation
+ *
+ * Example:
+ * hasPermission('moderator', 'closeQuestions') → true
+ */
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return hasRole(role, PERMISSIONS[permission]);
+}
+
+/**
+ * Checks whether a user has earned a reputation-gated privilege
+ * Moderators and admins have every privilege.
+ *
+ * Example:
+ * hasPrivilege('user', 200, 'downvote') → true
+ * hasPrivilege('user', 10, 'downvote') → false
+ */
+export function hasPrivilege(role: Role, reputation: number, privilege: Privilege): boolean {
+  return hasRole(role, 'moderator') || reputation >= PRIVILEGES[privilege].reputation;
+}
+
+/**
+ * Explains what it takes to unlock a privilege
+ *
+ * Example:
+ * describePrivilege('downvote') → "You need 125 reputation to downvote"
+ */
+export function describePrivilege(privilege: Privilege): string {
+  const { reputation, description } = PRIVILEGES[privilege];
+
+  return `You need ${reputation} reputation to ${description}`;
+}
@@ -0,0 +1,77 @@
+import { ClientSession } from 'mongoose';
+import type { Session } from 'next-auth';
+
+import { Privilege } from '@/constants/privileges';
+import { Tag, User } from '@/database';
+
+import { ForbiddenError, UnauthorizedError } from './http-errors';
+import { describePrivilege, getSessionRole, hasPrivilege } from './permissions';
+import { escapeRegExp } from './utils';
+
+/**
+ * Server-side enforcement of reputation-gated privileges
+ *
+ * Reputation changes with every vote, so it is read from the database instead
+ * of the session. Not a 'use server' module: these helpers are called from
+ * inside server actions, some of them in the middle of a transaction.
+ */
+
+/**
+ * Makes sure the signed-in user has earned a privilege
+ * @param session - Session of the user performing the action
+ * @param privilege - Privilege the action requires
+ * @param dbSession - Optional transaction to read the user's reputation in
+ * @throws ForbiddenError naming the privilege and the reputation it needs
+ *
+ * Example:
+ * await assertPrivilege(validationResult.session, 'downvote');
+ */
+export async function assertPrivilege(
+  session: Session | null,
+  privilege: Privilege,
+  dbSession?: ClientSession
+): Promise<void> {
+  if (!(await checkPrivilege(session, privilege, dbSession))) {
+    throw new ForbiddenError(describePrivilege(privilege));
+  }
+}
+
+/**
+ * Checks whether the signed-in user has earned a privilege, without throwing
+ */
+export async function checkPrivilege(
+  session: Session | null,
+  privilege: Privilege,
+  dbSession?: ClientSession
+): Promise<boolean> {
+  const userId = session?.user?.id;
+  if (!userId) throw new UnauthorizedError();
+
+  const role = getSessionRole(session);
+  if (hasPrivilege(role, 0, privilege)) return true;
+
+  const user = await User.findById(userId, { reputation: 1 }).session(dbSession ?? null);
+
+  return hasPrivilege(role, user?.reputation ?? 0, privilege);
+}
+
+/**
+ * Makes sure the signed-in user may attach a tag to a question
+ * Existing tags can be used by anyone, new ones need the createTags privilege.
+ *
+ * @param tagName - Name of the tag, matched case-insensitively
+ */
+export async function assertCanUseTag(
+  session: Session | null,
+  tagName: string,
+  dbSession?: ClientSession
+): Promise<void> {
+  const exists = await Tag.exists({ name: { $regex: new RegExp(`^${escapeRegExp(tagName)}$`, 'i') } }).session(
+    dbSession ?? null
+  );
+  if (exists) return;
+
+  if (!(await checkPrivilege(session, 'createTags', dbSession))) {
+    throw new ForbiddenError(`${describePrivilege('createTags')}, and "${tagName}" does not exist yet`);
+  }
+}
@@ -0,0 +1,159 @@
+import mongoose, { ClientSession, Types } from 'mongoose';
+
+import { REPUTATION_POINTS } from '@/constants/reputation';
+import { ReputationEvent, User } from '@/database';
+import { ReputationReason } from '@/database/reputation.model';
+
+/**
+ * Reputation ledger
+ *
+ * Every change to a user's reputation is stored as a signed event in the
+ * ReputationEvent collection, and User.reputation is kept in sync in the same
+ * transaction. Because the ledger is the source of truth, reputation can always
+ * be rebuilt from it with `rebuildReputation`.
+ *
+ * These helpers are only meant to be called from server actions that already
+ * hold a transaction, which is why this is not a 'use server' module.
+ */
+
+type ObjectIdLike = string | Types.ObjectId;
+
+export interface ReputationEventInput {
+  user: ObjectIdLike;
+  actor?: ObjectIdLike;
+  reason: ReputationReason;
+  points: number;
+  targetId: ObjectIdLike;
+  targetType: 'question' | 'answer';
+}
+
+/**
+ * Builds an event for the given reason using the configured points
+ * @param direction - 1 to award the points, -1 to reverse them
+ *
+ * Example:
+ * reputationEvent('answer_upvoted', { user, actor, targetId, targetType: 'answer' }, -1)
+ * → { reason: 'answer_upvoted', points: -10, ... }
+ */
+export function reputationEvent(
+  reason: Exclude<ReputationReason, 'post_deleted'>,
+  event: Omit<ReputationEventInput, 'reason' | 'points'>,
+  direction: 1 | -1 = 1
+): ReputationEventInput {
+  return { ...event, reason, points: REPUTATION_POINTS[reason] * direction };
+}
+
+/**
+ * Writes reputation events to the ledger and updates User.reputation
+ *
+ * Events with zero points, and events where users would earn reputation
+ * from their own actions (voting on or accepting their own posts), are skipped.
+ * Deletion reversals always apply, even when authors delete their own posts.
+ *
+ * @param events - Events to record
+ * @param session - Transaction the events belong to
+ */
+export async function recordReputationEvents(events: ReputationEventInput[], session: ClientSession): Promise<void> {
+  const validEvents = events.filter(event => event.points !== 0 && !isSelfAwarded(event));
+
+  if (validEvents.length === 0) return;
+
+  await ReputationEvent.insertMany(validEvents, { session });
+
+  // Combine the changes per user so each user is only updated once
+  const changes = new Map<string, number>();
+  for (const { user, points } of validEvents) {
+    changes.set(user.toString(), (changes.get(user.toString()) ?? 0) + points);
+  }
+
+  await User.bulkWrite(
+    Array.from(changes, ([userId, points]) => ({
+      updateOne: { filter: { _id: userId }, update: { $inc: { reputation: points } } },
+    })),
+    { session }
+  );
+}
+
+// Users never gain or lose reputation by voting on or accepting their own posts
+function isSelfAwarded({ reason, actor, user }: ReputationEventInput): boolean {
+  return reason !== 'post_deleted' && !!actor && actor.toString() === user.toString();
+}
+
+/**
+ * Reverses all reputation earned or lost through the given posts
+ * Used when questions or answers are deleted, so nobody keeps
+ * reputation from content that no longer exists.
+ *
+ * @param targetIds - IDs of the deleted questions and answers
+ * @param actorId - ID of the user who deleted the posts
+ * @param session - Transaction the deletion belongs to
+ */
+export async function reverseReputationForTargets(
+  targetIds: ObjectIdLike[],
+  actorId: ObjectIdLike,
+  session: ClientSession
+): Promise<void> {
+  if (targetIds.length === 0) return;
+
+  const ids = targetIds.map(id => new mongoose.Types.ObjectId(id.toString()));
+
+  const totals: Array<{ _id: { user: Types.ObjectId; targetId: Types.ObjectId; targetType: string }; points: number }> =
+    await ReputationEvent.aggregate([
+      { $match: { targetId: { $in: ids } } },
+      {
+        $group: {
+          _id: { user: '$user', targetId: '$targetId', targetType: '$targetType' },
+          points: { $sum: '$points' },
+        },
+      },
+    ]).session(session);
+
+  await recordReputationEvents(
+    totals.map(({ _id, points }) => ({
+      user: _id.user,
+      actor: actorId,
+      reason: 'post_deleted',
+      points: -points,
+      targetId: _id.targetId,
+      targetType: _id.targetType as 'question' | 'answer',
+    })),
+    session
+  );
+}
+
+/**
+ * Recomputes every user's reputation from the ledger
+ * Users without any events are reset to 0.
+ *
+ * @returns Number of users whose reputation was recomputed from events
+ */
+export async function rebuildReputation(): Promise<number> {
+  const session = await mongoose.startSession();
+
+  try {
+    let updatedUsers = 0;
+
+    await session.withTransaction(async () => {
+      const totals: Array<{ _id: Types.ObjectId; reputation: number }> = await ReputationEvent.aggregate([
+        { $group: { _id: '$user', reputation: { $sum: '$points' } } },
+      ]).session(session);
+
+      await User.updateMany({ _id: { $nin: totals.map(total => total._id) } }, { reputation: 0 }, { session });
+
+      if (totals.length > 0) {
+        await User.bulkWrite(
+          totals.map(({ _id, reputation }) => ({
+            updateOne: { filter: { _id }, update: { $set: { reputation } } },
+          })),
+          { session }
+        );
+      }
+
+      updatedUsers = totals.length;
+    });
+
+    return updatedUsers;
+  } finally {
+    await session.endSession();
+  }
+}
@@ -0,0 +1,139 @@
+import { ClientSession, Types } from 'mongoose';
+
+import { Revision, TagRevision } from '@/database';
+import { IQuestionDoc } from '@/database/question.model';
+import { ITagDoc } from '@/database/tag.model';
+
+/**
+ * Question and tag wiki revision history
+ *
+ * Every version of a question (title, body and tag set) and of a tag wiki
+ * (excerpt and body) is stored as a numbered revision, so edits never lose
+ * what a question or wiki used to say.
+ *
+ * These helpers are only meant to be called from server actions that already
+ * hold a transaction, which is why this is not a 'use server' module.
+ */
+
+interface RevisionInput {
+  questionId: string | Types.ObjectId;
+  authorId: string | Types.ObjectId;
+  title: string;
+  content: string;
+  tags: string[];
+  summary?: string;
+}
+
+/**
+ * Stores a new revision, numbered after the latest existing one
+ * @param input - Snapshot of the question and who produced it
+ * @param session - Transaction the revision belongs to
+ * @returns Number of the created revision
+ */
+export async function recordQuestionRevision(input: RevisionInput, session: ClientSession): Promise<number> {
+  const { questionId, authorId, title, content, tags, summary } = input;
+
+  const latest = await Revision.findOne({ question: questionId }, { revision: 1 })
+    .sort({ revision: -1 })
+    .session(session);
+  const revision = (latest?.revision ?? 0) + 1;
+
+  await Revision.create([{ question: questionId, author: authorId, revision, title, content, tags, summary }], {
+    session,
+  });
+
+  return revision;
+}
+
+/**
+ * Stores the current state of a question as revision 1 if it has no history yet
+ * Questions asked before revisions were tracked get their original version
+ * saved right before their first edit.
+ *
+ * @param question - Question with populated tags, before it is modified
+ * @param session - Transaction the edit belongs to
+ */
+export async function ensureInitialRevision(question: IQuestionDoc, session: ClientSession): Promise<void> {
+  const hasHistory = await Revision.exists({ question: question._id }).session(session);
+  if (hasHistory) return;
+
+  await Revision.create(
+    [
+      {
+        question: question._id,
+        author: question.author,
+        revision: 1,
+        title: question.title,
+        content: question.content,
+        tags: getTagNames(question),
+        createdAt: question.get('createdAt'),
+      },
+    ],
+    { session }
+  );
+}
+
+/**
+ * Returns the tag names of a question whose tags are populated
+ */
+export function getTagNames(question: IQuestionDoc): string[] {
+  return question.populated('tags') ? (question.tags as unknown as ITagDoc[]).map(tag => tag.name) : [];
+}
+
+interface TagRevisionInput {
+  tagId: string | Types.ObjectId;
+  authorId: string | Types.ObjectId;
+  excerpt: string;
+  wiki: string;
+  summary?: string;
+}
+
+/**
+ * Stores a new tag wiki revision, numbered after the latest existing one
+ * @param input - Snapshot of the tag wiki and who produced it
+ * @param session - Transaction the revision belongs to
+ * @returns Number of the created revision
+ */
+export async function recordTagRevision(input: TagRevisionInput, session: ClientSession): Promise<number> {
+  const { tagId, authorId, excerpt, wiki, summary } = input;
+
+  const latest = await TagRevision.findOne({ tag: tagId }, { revision: 1 }).sort({ revision: -1 }).session(session);
+  const revision = (latest?.revision ?? 0) + 1;
+
+  await TagRevision.create([{ tag: tagId, author: authorId, revision, excerpt, wiki, summary }], { session });
+
+  return revision;
+}
+
+/**
+ * Moves the wiki revisions of one tag to the end of another tag's history
+ * Used when tags are merged, so the merged tag's history is not left behind.
+ * @returns Number of moved revisions
+ *
+ * Example:
+ * js has revisions 1-2, javascript has revisions 1-3
+ * moveTagRevisions(js, javascript) → 2, and javascript has revisions 1-5
+ */
+export async function moveTagRevisions(
+  fromTagId: string | Types.ObjectId,
+  toTagId: string | Types.ObjectId,
+  session: ClientSession
+): Promise<number> {
+  const revisions = await TagRevision.find({ tag: fromTagId }, { revision: 1 }).sort({ revision: 1 }).session(session);
+  if (revisions.length === 0) return 0;
+
+  const latest = await TagRevision.findOne({ tag: toTagId }, { revision: 1 }).sort({ revision: -1 }).session(session);
+  const offset = latest?.revision ?? 0;
+
+  await TagRevision.bulkWrite(
+    revisions.map((revision, index) => ({
+      updateOne: {
+        filter: { _id: revision._id },
+        update: { tag: toTagId, revision: offset + index + 1 },
+      },
+    })),
+    { session }
+  );
+
+  return revisions.length;
+}
@@ -0,0 +1,171 @@
+import { ValidationError } from './http-errors';
+
+/**
+ * Parser for the advanced question search syntax
+ *
+ * Besides free text, the search box understands:
+ * - [tag]                       questions tagged with every listed tag
+ * - "exact phrase"              questions containing the phrase as typed
+ * - is:unanswered | is:answered | is:accepted | is:closed | is:open
+ * - score:>=3                   net score (upvotes - downvotes); also >, <, <=, = or a plain number
+ * - user:<id or username>       questions asked by that user
+ * - created:2026-01..2026-06    creation date; a single YYYY, YYYY-MM or YYYY-MM-DD, or a range
+ *                               with either end left open (created:2026-01.. or created:..2026-06)
+ *
+ * Example:
+ * parseSearchQuery('[typescript] is:unanswered score:>=3 generics "exact phrase"')
+ * → { text: "generics", phrases: ["exact phrase"], tags: ["typescript"], is: ["unanswered"],
+ *     score: { operator: ">=", value: 3 } }
+ *
+ * Malformed operator values throw a ValidationError on the `query` field. Only the
+ * operators above are recognised, so words like "TypeError:undefined", "std::vector"
+ * or "http://…" are searched as free text.
+ *
+ * Kept free of server-only imports, so it can be used on both the client and the server.
+ */
+
+export const SEARCH_STATES = ['unanswered', 'answered', 'accepted', 'closed', 'open'] as const;
+
+export type SearchState = (typeof SEARCH_STATES)[number];
+
+export type ScoreOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export interface ParsedSearchQuery {
+  // Free words, without operators, tags or phrases
+  text: string;
+  phrases: string[];
+  tags: string[];
+  is: SearchState[];
+  score?: { operator: ScoreOperator; value: number };
+  user?: string;
+  // Half-open range: from <= createdAt < to
+  created?: { from?: Date; to?: Date };
+}
+
+const OPERATORS = ['is', 'score', 'user', 'created'] as const;
+
+type Operator = (typeof OPERATORS)[number];
+
+// [tag], "phrase" or any other run of non-space characters
+const TOKEN_PATTERN = /\[([^\]]*)\]|"([^"]*)"|(\S+)/g;
+// operator:value, where the value does not start with ":" or "/" (as in std::vector or https://)
+const OPERATOR_PATTERN = new RegExp(`^(${OPERATORS.join('|')}):([^:/].*)$`, 'i');
+const SCORE_PATTERN = /^(>=|<=|>|<|=)?(-?\d+)$/;
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+function invalid(message: string): never {
+  throw new ValidationError({ query: [message] });
+}
+
+function parseScore(value: string): ParsedSearchQuery['score'] {
+  const match = value.match(SCORE_PATTERN);
+  if (!match) invalid(`"score:${value}" is not a valid score. Try score:>=3 or score:10.`);
+
+  return { operator: (match[1] as ScoreOperator) || '=', value: Number(match[2]) };
+}
+
+/**
+ * Resolves a YYYY, YYYY-MM or YYYY-MM-DD date into the period it covers
+ * @returns The first instant of the period and the first instant after it, in UTC
+ */
+function parsePeriod(value: string): { start: Date; end: Date } {
+  const match = value.match(DATE_PATTERN);
+  if (!match) invalid(`"${value}" is not a valid date. Use YYYY, YYYY-MM or YYYY-MM-DD.`);
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  const start = new Date(Date.UTC(year, month ?? 0, day ?? 1));
+  // Date.UTC rolls invalid values over (2026-02-30 becomes March 2nd), so check the parts survived
+  if (start.getUTCMonth() !== (month ?? 0) || start.getUTCDate() !== (day ?? 1)) {
+    invalid(`"${value}" is not a valid date.`);
+  }
+
+  const end =
+    day !== undefined
+      ? new Date(Date.UTC(year, month!, day + 1))
+      : month !== undefined
+        ? new Date(Date.UTC(year, month + 1, 1))
+        : new Date(Date.UTC(year + 1, 0, 1));
+
+  return { start, end };
+}
+
+function parseCreated(value: string): ParsedSearchQuery['created'] {
+  if (!value.includes('..')) {
+    const { start, end } = parsePeriod(value);
+    return { from: start, to: end };
+  }
+
+  const [from, to, ...rest] = value.split('..');
+  if (rest.length > 0 || (!from && !to)) {
+    invalid(`"created:${value}" is not a valid date range. Try created:2026-01..2026-06.`);
+  }
+
+  const created = { from: from ? parsePeriod(from).start : undefined, to: to ? parsePeriod(to).end : undefined };
+  if (created.from && created.to && created.from >= created.to) {
+    invalid(`"created:${value}" ends before it starts.`);
+  }
+
+  return created;
+}
+
+function applyOperator(parsed: ParsedSearchQuery, operator: Operator, value: string) {
+  switch (operator) {
+    case 'is': {
+      const state = value.toLowerCase() as SearchState;
+      if (!SEARCH_STATES.includes(state)) {
+        invalid(`"is:${value}" is not supported. Use one of ${SEARCH_STATES.map(s => `is:${s}`).join(', ')}.`);
+      }
+      if (!parsed.is.includes(state)) parsed.is.push(state);
+      return;
+    }
+    case 'score':
+      parsed.score = parseScore(value);
+      return;
+    case 'user':
+      parsed.user = value;
+      return;
+    case 'created':
+      parsed.created = parseCreated(value);
+  }
+}
+
+/**
+ * Splits a search query into free text and structured filters
+ * @param query - Raw search box input
+ * @throws ValidationError when an operator's value is malformed
+ */
+export function parseSearchQuery(query: string = ''): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: '', phrases: [], tags: [], is: [] };
+  const words: string[] = [];
+
+  for (const [, tag, phrase, word] of query.matchAll(TOKEN_PATTERN)) {
+    if (tag !== undefined) {
+      if (!tag.trim()) invalid('Tag filters cannot be empty. Try [javascript].');
+      parsed.tags.push(tag.trim());
+    } else if (phrase !== undefined) {
+      if (phrase.trim()) parsed.phrases.push(phrase.trim());
+    } else {
+      const match = word.match(OPERATOR_PATTERN);
+      if (!match) {
+        words.push(word);
+        continue;
+      }
+
+      applyOperator(parsed, match[1].toLowerCase() as Operator, match[2]);
+    }
+  }
+
+  if (parsed.is.includes('answered') && parsed.is.includes('unanswered')) {
+    invalid('A question cannot be both is:answered and is:unanswered.');
+  }
+  if (parsed.is.includes('closed') && parsed.is.includes('open')) {
+    invalid('A question cannot be both is:closed and is:open.');
+  }
+
+  parsed.text = words.join(' ');
+
+  return parsed;
+}
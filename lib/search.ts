@@ -0,0 +1,85 @@
+import { FilterQuery, Model, SortOrder } from 'mongoose';
+
+import { escapeRegExp } from './utils';
+
+/**
+ * Full-text search helpers shared by the listing actions
+ *
+ * Searches go through the MongoDB text indexes declared on the Question, Tag
+ * and User models, so results can be ranked by relevance. Text search only
+ * matches whole (stemmed) words, which means partial input like "reac" finds
+ * nothing; in that case the helpers fall back to a case-insensitive substring
+ * match built from escaped user input, so special characters are always
+ * matched literally.
+ *
+ * Not a 'use server' module, so the helpers are not exposed as server actions.
+ */
+
+export type SortCriteria = { [key: string]: SortOrder | { $meta: 'textScore' } };
+
+export interface TextSearch<T> {
+  query: FilterQuery<T>;
+  // Whether the query uses the text index, so results can be sorted by relevance
+  ranked: boolean;
+}
+
+// Sorts text search results by relevance, best match first
+export const RELEVANCE_SORT: SortCriteria = { score: { $meta: 'textScore' } };
+
+/**
+ * Builds a MongoDB $text condition for a search term
+ * Each word is searched on its own; quoted phrases are kept intact.
+ */
+export function textCondition(searchTerm: string) {
+  return { $text: { $search: searchTerm.trim() } };
+}
+
+/**
+ * Builds the escaped, case-insensitive fallback condition
+ * The term matches as a substring of any of the given fields.
+ *
+ * Example:
+ * regexCondition("c++", ["name"]) → { $or: [{ name: { $regex: "c\\+\\+", $options: "i" } }] }
+ */
+export function regexCondition(searchTerm: string, fields: string[]) {
+  const pattern = escapeRegExp(searchTerm.trim());
+
+  return { $or: fields.map(field => ({ [field]: { $regex: pattern, $options: 'i' } })) };
+}
+
+/**
+ * Resolves the query for a search, preferring the text index
+ *
+ * @param model - Model with a text index over the searched fields
+ * @param baseQuery - Conditions every result must match
+ * @param searchTerm - Raw user input; an empty term returns the base query
+ * @param fallbackFields - Fields to substring-match when the text index finds nothing
+ *
+ * Example:
+ * await resolveTextSearch(Tag, {}, "react", ["name"])
+ * → { query: { $text: { $search: "react" } }, ranked: true }
+ * await resolveTextSearch(Tag, {}, "reac", ["name"])
+ * → { query: { $or: [{ name: { $regex: "reac", $options: "i" } }] }, ranked: false }
+ */
+export async function resolveTextSearch<T>(
+  model: Model<T>,
+  baseQuery: FilterQuery<T>,
+  searchTerm: string | undefined,
+  fallbackFields: string[]
+): Promise<TextSearch<T>> {
+  if (!searchTerm?.trim()) return { query: baseQuery, ranked: false };
+
+  const textQuery = { ...baseQuery, ...textCondition(searchTerm) } as FilterQuery<T>;
+  if (await model.exists(textQuery)) return { query: textQuery, ranked: true };
+
+  return { query: { ...baseQuery, ...regexCondition(searchTerm, fallbackFields) } as FilterQuery<T>, ranked: false };
+}
+
+/**
+ * Puts relevance first when the results come from the text index
+ * Meant for searches where the user did not pick a sort order; the default
+ * order then breaks ties between equally relevant results.
+ */
+export function withRelevance(search: { ranked: boolean }, sortCriteria: SortCriteria): SortCriteria {
+  return search.ranked ? { ...RELEVANCE_SORT, ...sortCriteria } : sortCriteria;
+}
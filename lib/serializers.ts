@@ -0,0 +1,24 @@
+import { IAccount } from '@/database/account.model';
+
+/**
+ * Response serializers for the API route handlers
+ *
+ * Documents are never sent back as they are stored: secrets such as the
+ * password hash of credential accounts are stripped before responding.
+ */
+
+export type SafeAccount = Omit<IAccount, 'password'> & { _id: string };
+
+/**
+ * Converts an account document into a plain object without its password hash
+ *
+ * Example:
+ * serializeAccount(account)
+ * → { _id: "123", userId: "456", provider: "credentials", ... }
+ */
+export function serializeAccount(account: { toObject(): unknown }): SafeAccount {
+  const data = JSON.parse(JSON.stringify(account.toObject())) as SafeAccount & { password?: string };
+  delete data.password;
+
+  return data;
+}
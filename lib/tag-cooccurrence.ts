@@ -0,0 +1,144 @@
+import mongoose, { ClientSession, FilterQuery, PipelineStage, Types } from 'mongoose';
+
+import { TagCooccurrence, TagQuestion } from '@/database';
+
+/**
+ * Tag co-occurrence statistics
+ *
+ * TagCooccurrence counts, for every pair of tags, the questions that carry
+ * both. Pairs are stored in both directions (react → nextjs and nextjs → react),
+ * so the related tags of a tag are a single indexed lookup. The question
+ * actions keep the counts up to date incrementally, and they can always be
+ * rebuilt from the TagQuestion rows with `rebuildTagCooccurrence`.
+ *
+ * These helpers are only meant to be called from server actions, most of them
+ * in the middle of a transaction, which is why this is not a 'use server' module.
+ */
+
+type ObjectIdLike = string | Types.ObjectId;
+
+interface CooccurrenceRow {
+  tag: Types.ObjectId;
+  related: Types.ObjectId;
+  count: number;
+}
+
+/**
+ * Lists every ordered pair of distinct tags
+ *
+ * Example:
+ * tagPairs(["a", "b", "c"]) → [["a", "b"], ["a", "c"], ["b", "a"], ["b", "c"], ["c", "a"], ["c", "b"]]
+ */
+function tagPairs(tagIds: ObjectIdLike[]): Array<[string, string]> {
+  const ids = [...new Set(tagIds.map(id => id.toString()))];
+
+  return ids.flatMap(tag => ids.filter(related => related !== tag).map(related => [tag, related] as [string, string]));
+}
+
+/**
+ * Counts tag pairs over the questions of the matching TagQuestion rows
+ */
+function cooccurrencePipeline(match: FilterQuery<typeof TagQuestion> = {}): PipelineStage[] {
+  return [
+    { $match: match },
+    { $group: { _id: '$question', tags: { $addToSet: '$tag' } } },
+    { $project: { tag: '$tags', related: '$tags' } },
+    { $unwind: '$tag' },
+    { $unwind: '$related' },
+    { $match: { $expr: { $ne: ['$tag', '$related'] } } },
+    { $group: { _id: { tag: '$tag', related: '$related' }, count: { $sum: 1 } } },
+    { $project: { _id: 0, tag: '$_id.tag', related: '$_id.related', count: 1 } },
+  ];
+}
+
+/**
+ * Updates the counts after the tags of a question changed
+ * Only the pairs that appeared or disappeared are touched.
+ *
+ * @param previousTags - Tags of the question before the change, empty for a new question
+ * @param currentTags - Tags of the question after the change, empty for a deleted question
+ * @param session - Database transaction session
+ *
+ * Example:
+ * [react, redux] → [react, nextjs]
+ * → react ↔ redux: -1, react ↔ nextjs: +1
+ */
+export async function updateTagCooccurrence(
+  previousTags: ObjectIdLike[],
+  currentTags: ObjectIdLike[],
+  session: ClientSession
+): Promise<void> {
+  const keyOf = ([tag, related]: [string, string]) => `${tag}:${related}`;
+  const previous = new Map(tagPairs(previousTags).map(pair => [keyOf(pair), pair]));
+  const current = new Map(tagPairs(currentTags).map(pair => [keyOf(pair), pair]));
+
+  const changes = [
+    ...[...current].filter(([key]) => !previous.has(key)).map(([, pair]) => ({ pair, delta: 1 })),
+    ...[...previous].filter(([key]) => !current.has(key)).map(([, pair]) => ({ pair, delta: -1 })),
+  ];
+  if (changes.length === 0) return;
+
+  await TagCooccurrence.bulkWrite(
+    changes.map(({ pair: [tag, related], delta }) => ({
+      updateOne: {
+        filter: { tag: new Types.ObjectId(tag), related: new Types.ObjectId(related) },
+        update: { $inc: { count: delta } },
+        upsert: delta > 0,
+      },
+    })),
+    { session }
+  );
+
+  // Pairs no question carries anymore are dropped
+  const removedFrom = [...new Set(changes.filter(({ delta }) => delta < 0).map(({ pair: [tag] }) => tag))];
+  if (removedFrom.length > 0) {
+    await TagCooccurrence.deleteMany({ tag: { $in: removedFrom }, count: { $lte: 0 } }, { session });
+  }
+}
+
+/**
+ * Recomputes the pairs of one tag from its questions
+ * Used when the tag's questions changed in bulk, e.g. after a tag merge.
+ */
+export async function recomputeTagCooccurrence(tagId: ObjectIdLike, session: ClientSession): Promise<void> {
+  const id = new Types.ObjectId(tagId.toString());
+  const questionIds = await TagQuestion.distinct('question', { tag: id }).session(session);
+
+  const rows: CooccurrenceRow[] = await TagQuestion.aggregate(
+    cooccurrencePipeline({ question: { $in: questionIds } })
+  ).session(session);
+
+  await TagCooccurrence.deleteMany({ $or: [{ tag: id }, { related: id }] }, { session });
+
+  const rowsOfTag = rows.filter(({ tag, related }) => tag.equals(id) || related.equals(id));
+  if (rowsOfTag.length > 0) {
+    await TagCooccurrence.insertMany(rowsOfTag, { session });
+  }
+}
+
+/**
+ * Rebuilds every count from the TagQuestion rows
+ * @returns Number of tag pairs, counted once per direction
+ */
+export async function rebuildTagCooccurrence(): Promise<number> {
+  const session = await mongoose.startSession();
+
+  try {
+    let pairs = 0;
+
+    await session.withTransaction(async () => {
+      const rows: CooccurrenceRow[] = await TagQuestion.aggregate(cooccurrencePipeline()).session(session);
+
+      await TagCooccurrence.deleteMany({}, { session });
+      if (rows.length > 0) {
+        await TagCooccurrence.insertMany(rows, { session });
+      }
+
+      pairs = rows.length;
+    });
+
+    return pairs;
+  } finally {
+    await session.endSession();
+  }
+}
@@ -0,0 +1,49 @@
+import { ClientSession } from 'mongoose';
+
+import { Tag, TagSynonym } from '@/database';
+
+import { escapeRegExp } from './utils';
+
+/**
+ * Tag lookup shared by the question and tag actions
+ *
+ * Aliases such as "js" can be recorded as synonyms of a canonical tag
+ * ("javascript"), so questions always end up with the canonical tag no matter
+ * which name the author typed. Tag names are matched case-insensitively.
+ *
+ * Not a 'use server' module: these helpers are called from inside server
+ * actions, some of them in the middle of a transaction.
+ */
+
+/**
+ * Finds a tag by name, ignoring letter case
+ */
+export function findTagByName(name: string, session?: ClientSession) {
+  return Tag.findOne({ name: { $regex: `^${escapeRegExp(name.trim())}$`, $options: 'i' } }).session(session ?? null);
+}
+
+/**
+ * Maps tag names to their canonical tags
+ * Names without a synonym are kept as typed, and names that end up on the same
+ * tag are only kept once.
+ *
+ * Example:
+ * With "js" recorded as a synonym of "javascript":
+ * await resolveTagNames(["js", "react", "JavaScript"]) → ["javascript", "react"]
+ */
+export async function resolveTagNames(names: string[], session?: ClientSession): Promise<string[]> {
+  const synonyms = await TagSynonym.find({ name: { $in: names.map(name => name.trim().toLowerCase()) } })
+    .populate<{ tag: { name: string } | null }>('tag', 'name')
+    .session(session ?? null);
+  const canonicalNames = new Map(
+    synonyms.filter(synonym => synonym.tag).map(synonym => [synonym.name, synonym.tag!.name])
+  );
+
+  const resolved = new Map<string, string>();
+  for (const name of names) {
+    const canonical = canonicalNames.get(name.trim().toLowerCase()) ?? name.trim();
+    if (!resolved.has(canonical.toLowerCase())) resolved.set(canonical.toLowerCase(), canonical);
+  }
+
+  return [...resolved.values()];
+}
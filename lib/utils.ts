@@ -86,3 +86,49 @@ export const formatNumber = (number: number) => {
     return number.toString();
   }
 };
+
+// Escapes user input so it can be matched literally inside a RegExp
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Reduces markdown to plain text: code blocks, images and formatting characters are dropped
+export const stripMarkdown = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`~|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Cleans up AI answers for the editor: models sometimes emit HTML line breaks and "N/A" placeholders
+export const formatAIAnswer = (text: string) => text.replace(/<br>/g, '\n').replace(/N\/A/g, '').trim();
+
+/**
+ * Turns markdown into a short plain-text excerpt
+ * The text is cut at a word boundary.
+ *
+ * Example:
+ * toPlainExcerpt("Use **useEffect** here:\n```js\nfoo()\n```", 20)
+ * → "Use useEffect here:"
+ */
+export const toPlainExcerpt = (markdown: string, maxLength: number = 160) => {
+  const text = stripMarkdown(markdown);
+
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+};
+
+/**
+ * Tells whether a tag is watched or ignored in a user's tag preferences
+ * @returns null when the user has no preference for the tag
+ */
+export const getTagPreference = (preferences: TagPreferences | undefined, tagId: string): TagPreferenceKind | null => {
+  if (preferences?.watched.some(tag => tag._id === tagId)) return 'watched';
+  if (preferences?.ignored.some(tag => tag._id === tagId)) return 'ignored';
+
+  return null;
+};
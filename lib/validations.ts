@@ -1,5 +1,8 @@
 import { z } from 'zod';
 
+import { MAX_AI_DAILY_LIMIT } from '@/constants/ai';
+import { SEARCHABLE_TYPES } from '@/constants/search';
+
 export const SignInSchema = z.object({
   email: z
     .string()
@@ -74,6 +77,13 @@ export const UserSchema = z.object({
   reputation: z.number().optional(),
 });
 
+export const ProfileSchema = SignUpSchema.pick({ name: true, username: true }).extend({
+  bio: z.string().max(500, { message: 'Bio cannot exceed 500 characters.' }).optional(),
+  location: z.string().max(100, { message: 'Location cannot exceed 100 characters.' }).optional(),
+  portfolio: z.union([z.literal(''), z.string().url({ message: 'Please provide a valid URL.' })]).optional(),
+  image: z.union([z.literal(''), z.string().url({ message: 'Please provide a valid URL.' })]).optional(),
+});
+
 export const AccountSchema = z.object({
   userId: z.string().min(1, { message: 'User ID is required.' }),
   name: z.string().min(1, { message: 'Name is required.' }),
@@ -110,12 +120,35 @@ export const SignInWithOAuthSchema = z.object({
 
 export const EditQuestionSchema = AskQuestionSchema.extend({
   questionId: z.string().min(1, { message: 'Question ID is required.' }),
+  summary: z.string().max(200, { message: 'Edit summary cannot exceed 200 characters.' }).optional(),
+});
+
+export const RollbackQuestionSchema = z.object({
+  questionId: z.string().min(1, { message: 'Question ID is required.' }),
+  revisionId: z.string().min(1, { message: 'Revision ID is required.' }),
 });
 
 export const GetQuestionSchema = z.object({
   questionId: z.string().min(1, { message: 'Question ID is required.' }),
 });
 
+export const DeleteQuestionSchema = z.object({
+  questionId: z.string().min(1, { message: 'Question ID is required.' }),
+});
+
+export const CloseQuestionSchema = z.object({
+  questionId: z.string().min(1, { message: 'Question ID is required.' }),
+  reason: z
+    .string()
+    .trim()
+    .min(10, { message: 'Reason must be at least 10 characters.' })
+    .max(200, { message: 'Reason cannot exceed 200 characters.' }),
+});
+
+export const ReopenQuestionSchema = z.object({
+  questionId: z.string().min(1, { message: 'Question ID is required.' }),
+});
+
 export const PaginatedSearchParamsSchema = z.object({
   page: z.number().int().positive().default(1),
   pageSize: z.number().int().positive().default(10),
@@ -124,10 +157,94 @@ export const PaginatedSearchParamsSchema = z.object({
   sort: z.string().optional(),
 });
 
+export const EditTagSchema = z.object({
+  tagId: z.string().min(1, { message: 'Tag ID is required.' }),
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: 'Tag is required.' })
+    .max(30, { message: 'Tag cannot exceed 30 characters.' }),
+});
+
+// A synonym is an alias name pointing at an existing tag
+export const AddTagSynonymSchema = EditTagSchema;
+
+export const RemoveTagSynonymSchema = z.object({
+  synonymId: z.string().min(1, { message: 'Synonym ID is required.' }),
+});
+
+export const SetTagPreferenceSchema = z.object({
+  tagId: z.string().min(1, { message: 'Tag ID is required.' }),
+  preference: z.enum(['watched', 'ignored'], { message: 'Invalid tag preference.' }).nullable(),
+});
+
+export const SetHideIgnoredTagsSchema = z.object({
+  hide: z.boolean(),
+});
+
+export const MergeTagsSchema = z.object({
+  tagId: z.string().min(1, { message: 'Tag ID is required.' }),
+  targetName: z
+    .string()
+    .trim()
+    .min(1, { message: 'Target tag is required.' })
+    .max(30, { message: 'Tag cannot exceed 30 characters.' }),
+});
+
+export const EditTagWikiSchema = z.object({
+  tagId: z.string().min(1, { message: 'Tag ID is required.' }),
+  excerpt: z
+    .string()
+    .trim()
+    .min(20, { message: 'Excerpt must be at least 20 characters.' })
+    .max(300, { message: 'Excerpt cannot exceed 300 characters.' }),
+  wiki: z.string().max(30000, { message: 'Wiki cannot exceed 30000 characters.' }),
+  summary: z.string().max(200, { message: 'Edit summary cannot exceed 200 characters.' }).optional(),
+});
+
+export const GetTagSchema = z.object({
+  tagId: z.string().min(1, { message: 'Tag ID is required.' }),
+});
+
+export const GetRelatedTagsSchema = GetTagSchema.extend({
+  limit: z.number().int().positive().max(20).default(10),
+});
+
+export const GetFrequentlyUsedWithSchema = z.object({
+  tags: z
+    .array(
+      z.string().trim().min(1, { message: 'Tag is required.' }).max(30, { message: 'Tag cannot exceed 30 characters.' })
+    )
+    .min(1, { message: 'At least one tag is required.' })
+    .max(3, { message: 'Cannot use more than 3 tags.' }),
+  limit: z.number().int().positive().max(10).default(5),
+});
+
+export const SearchTagsSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1, { message: 'Search query is required.' })
+    .max(30, { message: 'Search query cannot exceed 30 characters.' }),
+  limit: z.number().int().positive().max(10).default(5),
+});
+
 export const GetTagQuestionsSchema = PaginatedSearchParamsSchema.extend({
   tagId: z.string().min(1, { message: 'Tag ID is required.' }),
 });
 
+export const GetUserSchema = z.object({
+  userId: z.string().min(1, { message: 'User ID is required.' }),
+});
+
+export const GetUserQuestionsSchema = PaginatedSearchParamsSchema.extend({
+  userId: z.string().min(1, { message: 'User ID is required.' }),
+});
+
+export const GetUserAnswersSchema = PaginatedSearchParamsSchema.extend({
+  userId: z.string().min(1, { message: 'User ID is required.' }),
+});
+
 export const AnswerSchema = z.object({
   content: z.string().min(100, { message: 'Answer has to have more than 100 characters.' }),
 });
@@ -136,11 +253,51 @@ export const AnswerServerSchema = AnswerSchema.extend({
   questionId: z.string().min(1, { message: 'Question ID is required.' }),
 });
 
+export const EditAnswerSchema = AnswerSchema.extend({
+  answerId: z.string().min(1, { message: 'Answer ID is required.' }),
+});
+
+export const DeleteAnswerSchema = z.object({
+  answerId: z.string().min(1, { message: 'Answer ID is required.' }),
+});
+
+export const AcceptAnswerSchema = z.object({
+  answerId: z.string().min(1, { message: 'Answer ID is required.' }),
+});
+
 export const GetAnswersSchema = PaginatedSearchParamsSchema.extend({
   questionId: z.string().min(1, { message: 'Question ID is required.' }),
 });
 
+export const CommentSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(15, { message: 'Comment has to have at least 15 characters.' })
+    .max(600, { message: 'Comment cannot exceed 600 characters.' }),
+});
+
+export const CreateCommentSchema = CommentSchema.extend({
+  targetId: z.string().min(1, { message: 'Target ID is required.' }),
+  targetType: z.enum(['question', 'answer'], { message: 'Invalid target type.' }),
+  parentId: z.string().min(1, { message: 'Parent comment ID is required.' }).optional(),
+});
+
+export const EditCommentSchema = CommentSchema.extend({
+  commentId: z.string().min(1, { message: 'Comment ID is required.' }),
+});
+
+export const CommentIdSchema = z.object({
+  commentId: z.string().min(1, { message: 'Comment ID is required.' }),
+});
+
+export const GetCommentsSchema = CreateCommentSchema.pick({
+  targetId: true,
+  targetType: true,
+});
+
 export const AIAnswerSchema = z.object({
+  questionId: z.string().min(1, { message: 'Question ID is required' }),
   question: z
     .string()
     .min(5, { message: 'Question is required' })
@@ -149,6 +306,17 @@ export const AIAnswerSchema = z.object({
   userAnswer: z.string().optional(),
 });
 
+export const SetAIDailyLimitSchema = z.object({
+  userId: z.string().min(1, { message: 'User ID is required.' }),
+  // null goes back to the default limit
+  limit: z
+    .number()
+    .int({ message: 'Limit must be a whole number.' })
+    .min(0, { message: 'Limit cannot be negative.' })
+    .max(MAX_AI_DAILY_LIMIT, { message: `Limit cannot exceed ${MAX_AI_DAILY_LIMIT}.` })
+    .nullable(),
+});
+
 export const CreateVoteSchema = z.object({
   targetId: z.string().min(1, { message: 'Target ID is required.' }),
   targetType: z.enum(['question', 'answer'], {
@@ -169,3 +337,14 @@ export const HasVotedSchema = CreateVoteSchema.pick({
 export const CollectionBaseSchema = z.object({
   questionId: z.string().min(1, { message: 'Question ID is required.' }),
 });
+
+export const GlobalSearchSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1, { message: 'Search query is required.' })
+    .max(100, { message: 'Search query cannot exceed 100 characters.' }),
+  type: z.enum(SEARCHABLE_TYPES, { message: 'Invalid search type.' }).optional(),
+  page: z.number().int().positive().default(1),
+  pageSize: z.number().int().positive().max(50).default(10),
+});
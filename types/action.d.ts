@@ -24,21 +24,71 @@ interface CreateQuestionParams {
 
 interface EditQuestionParams extends CreateQuestionParams {
   questionId: string;
+  summary?: string;
+}
+
+interface RollbackQuestionParams {
+  questionId: string;
+  revisionId: string;
 }
 
 interface GetQuestionParams {
   questionId: string;
 }
 
+interface DeleteQuestionParams {
+  questionId: string;
+}
+
+interface CloseQuestionParams {
+  questionId: string;
+  reason: string;
+}
+
+interface ReopenQuestionParams {
+  questionId: string;
+}
+
 interface CreateAnswerParams {
   questionId: string;
   content: string;
 }
 
+interface EditAnswerParams {
+  answerId: string;
+  content: string;
+}
+
+interface DeleteAnswerParams {
+  answerId: string;
+}
+
+interface AcceptAnswerParams {
+  answerId: string;
+}
+
 interface GetAnswersParams extends PaginatedSearchParams {
   questionId: string;
 }
 
+interface CreateCommentParams {
+  targetId: string;
+  targetType: 'question' | 'answer';
+  content: string;
+  parentId?: string;
+}
+
+interface EditCommentParams {
+  commentId: string;
+  content: string;
+}
+
+interface CommentIdParams {
+  commentId: string;
+}
+
+type GetCommentsParams = Pick<CreateCommentParams, 'targetId' | 'targetType'>;
+
 interface CreateVoteParams {
   targetId: string;
   targetType: 'question' | 'answer';
@@ -56,6 +106,91 @@ interface HasVotedResponse {
   hasDownvoted: boolean;
 }
 
+interface EditTagParams {
+  tagId: string;
+  name: string;
+}
+
+interface EditTagWikiParams {
+  tagId: string;
+  excerpt: string;
+  wiki: string;
+  summary?: string;
+}
+
+interface GetTagParams {
+  tagId: string;
+}
+
+interface GetRelatedTagsParams extends GetTagParams {
+  limit?: number;
+}
+
+interface GetFrequentlyUsedWithParams {
+  tags: string[];
+  limit?: number;
+}
+
+interface SearchTagsParams {
+  query: string;
+  limit?: number;
+}
+
+interface AddTagSynonymParams {
+  tagId: string;
+  name: string;
+}
+
+interface RemoveTagSynonymParams {
+  synonymId: string;
+}
+
+interface SetTagPreferenceParams {
+  tagId: string;
+  // null clears the preference
+  preference: 'watched' | 'ignored' | null;
+}
+
+interface SetHideIgnoredTagsParams {
+  hide: boolean;
+}
+
+interface MergeTagsParams {
+  tagId: string;
+  targetName: string;
+}
+
 interface CollectionBaseParams {
   questionId: string;
 }
+
+interface GetUserParams {
+  userId: string;
+}
+
+interface UpdateUserParams {
+  name: string;
+  username: string;
+  bio?: string;
+  location?: string;
+  portfolio?: string;
+  image?: string;
+}
+
+interface SetAIDailyLimitParams {
+  userId: string;
+  limit: number | null;
+}
+
+interface GetUserQuestionsParams extends Pick<PaginatedSearchParams, 'page' | 'pageSize'> {
+  userId: string;
+}
+
+interface GetUserAnswersParams extends Pick<PaginatedSearchParams, 'page' | 'pageSize'> {
+  userId: string;
+}
+
+interface GlobalSearchParams extends Pick<PaginatedSearchParams, 'page' | 'pageSize'> {
+  query: string;
+  type?: 'question' | 'answer' | 'user' | 'tag';
+}
@@ -2,6 +2,25 @@ interface Tag {
   _id: string;
   name: string;
   questions?: number;
+  excerpt?: string;
+  wiki?: string;
+}
+
+interface RelatedTag {
+  _id: string;
+  name: string;
+  questions: number;
+  // Number of questions carrying both tags
+  count: number;
+}
+
+interface TagSuggestion {
+  _id: string;
+  name: string;
+  questions: number;
+  excerpt?: string;
+  // Alias the search matched, when the tag was found through one of its synonyms
+  synonym?: string;
 }
 
 interface Author {
@@ -21,7 +40,24 @@ interface Question {
   downvotes: number;
   answers: number;
   views: number;
+  acceptedAnswer?: string | null;
+  closedAt?: Date | null;
+  closeReason?: string;
   createdAt: Date;
+  // Present on search results, showing why the question matched
+  highlight?: SearchHighlight;
+  // Set in the home feed when the question carries one of the viewer's ignored tags
+  ignored?: boolean;
+}
+
+interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface SearchHighlight {
+  title: HighlightSegment[];
+  excerpt: HighlightSegment[];
 }
 
 type ActionResponse<T = null> = {
@@ -56,22 +92,82 @@ interface PaginatedSearchParams {
 interface Answer {
   _id: string;
   author: Author;
+  question?: string | Pick<Question, '_id' | 'title'>;
   content: string;
   createdAt: Date;
   upvotes: number;
   downvotes: number;
 }
 
+// Named PostComment because `Comment` is already a DOM type
+interface PostComment {
+  _id: string;
+  author: Author;
+  content: string;
+  parent?: string | null;
+  upvotes: number;
+  hasUpvoted: boolean;
+  createdAt: Date;
+  replies: PostComment[];
+}
+
+interface Revision {
+  _id: string;
+  question: string;
+  author: Author;
+  revision: number;
+  title: string;
+  content: string;
+  tags: string[];
+  summary?: string;
+  createdAt: Date;
+}
+
+interface TagSynonym {
+  _id: string;
+  name: string;
+  tag: string;
+}
+
+type TagPreferenceKind = 'watched' | 'ignored';
+
+interface TagPreferences {
+  watched: Tag[];
+  ignored: Tag[];
+  // Questions with ignored tags are hidden from the home feed instead of dimmed
+  hideIgnored: boolean;
+}
+
+interface TagRevision {
+  _id: string;
+  tag: string;
+  author: Author;
+  revision: number;
+  excerpt: string;
+  wiki: string;
+  summary?: string;
+  createdAt: Date;
+}
+
 interface User {
   _id: string;
   name: string;
   username: string;
-  email: string;
+  // Left out of public profiles
+  email?: string;
   bio?: string;
   image?: string;
   location?: string;
   portfolio?: string;
   reputation?: number;
+  createdAt: Date;
+}
+
+interface UserStats {
+  totalQuestions: number;
+  totalAnswers: number;
+  acceptedAnswers: number;
+  totalVotes: number;
 }
 
 interface Collection {
@@ -79,3 +175,20 @@ interface Collection {
   author: string | Author;
   question: Question;
 }
+
+interface GlobalSearchResult {
+  type: 'question' | 'answer' | 'user' | 'tag';
+  id: string;
+  title: string;
+  excerpt?: string;
+  href: string;
+}
+
+interface AIQuota {
+  used: number;
+  limit: number;
+  remaining: number;
+  // Whether an admin set this user's limit, instead of the default
+  isCustomLimit: boolean;
+  resetsAt: Date;
+}